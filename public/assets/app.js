@@ -22,6 +22,7 @@ class LoggyLoggerApp {
         this._filterDebounceTimer = null;
         this._statsInterval = null;
         this._checksStatsMode = 'interval'; // 'disabled', 'interval', 'live'
+        this._sortMode = 'time'; // 'time', 'duration' (slowest timed logs first)
 
         this.LOG_LEVELS = ['silly', 'verbose', 'debug', 'log', 'info', 'success', 'warn', 'error', 'fatal'];
         this.BUFFER_PRESETS = [100, 500, 1000, 5000, 10000, 50000];
@@ -54,6 +55,7 @@ class LoggyLoggerApp {
         this._startStatsUpdater();
 
         // Load initial data
+        this._fetchLevels();
         this._fetchLogFiles();
         setTimeout(() => { // Fetch again once everything loaded
             this._fetchLogFiles();
@@ -174,6 +176,12 @@ class LoggyLoggerApp {
             }
         });
 
+        // Sort mode
+        DOM.on('sortMode', 'change', (e) => {
+            this._sortMode = e.target.value;
+            this._fullRender();
+        });
+
         // Scroll handling
         DOM.get('logsContainer').addEventListener('scroll', () => {
             this._autoScroll = this._isAtBottom();
@@ -349,6 +357,9 @@ class LoggyLoggerApp {
     _addLog(logData) {
         const startTime = performance.now();
 
+        // Dedup mode: repeats update the counter of the repeated entry instead of adding entries
+        if (logData.repeats && this._mergeRepeats(logData)) return;
+
         if (!logData.date) {
             logData.date = new Date().toISOString();
         }
@@ -360,9 +371,16 @@ class LoggyLoggerApp {
             id: ++this._logIdCounter,
             ...logData,
             type: logData.type.slice(4), // Remove 'log-' prefix
+            // Repeated entry no longer in the buffer: this entry stands for all the repeats
+            repeats: logData.repeats ? logData.repeats - 1 : 0,
             isNew: true
         };
 
+        // Level registered after the dashboard loaded
+        if (!this.LOG_LEVELS.includes(log.type)) {
+            this._addLogLevel(log.type, '#d4d4d4', true);
+        }
+
         this._logs.push(log);
         PerfMonitor.trackLogReceived();
 
@@ -400,7 +418,11 @@ class LoggyLoggerApp {
 
             const container = DOM.get('logsContainer');
             const scrollIndicator = container.querySelector('#scrollIndicator');
-            if (scrollIndicator) {
+            // Sorted by duration: timed logs take their place among the others, untimed ones go last
+            const durationAnchor = this._sortMode === 'duration' && log.durationMs !== undefined ? this._findDurationAnchor(log) : null;
+            if (durationAnchor) {
+                container.insertBefore(entry, durationAnchor);
+            } else if (scrollIndicator) {
                 container.insertBefore(entry, scrollIndicator);
             } else {
                 container.appendChild(entry);
@@ -437,6 +459,51 @@ class LoggyLoggerApp {
         }
     }
 
+    /**
+     * Displayed entry a new timed log goes before when sorted by duration, null to append it
+     */
+    _findDurationAnchor(log) {
+        let anchor = null, anchorDuration = -Infinity;
+        for (const other of this._logs) {
+            const element = this._logElements.get(other.id);
+            const duration = other.durationMs ?? -1;
+            // Slowest of the faster logs, the earliest one when tied
+            if (element && duration < log.durationMs && duration > anchorDuration) {
+                anchor = element;
+                anchorDuration = duration;
+            }
+        }
+        return anchor;
+    }
+
+    /**
+     * Add repeats to the latest matching entry, and re-render it
+     * @returns {boolean} Whether a matching entry was found
+     */
+    _mergeRepeats(logData) {
+        const type = logData.type.slice(4);
+        const argsKey = JSON.stringify(logData.argList);
+        // Repeats are sent right after their entry, only other loggers can interleave
+        const minIndex = Math.max(0, this._logs.length - 100);
+
+        for (let i = this._logs.length - 1; i >= minIndex; i--) {
+            const log = this._logs[i];
+            if (log.type !== type || log.namespace !== logData.namespace || JSON.stringify(log.argList) !== argsKey) continue;
+
+            log.repeats = (log.repeats || 0) + logData.repeats;
+            const element = this._logElements.get(log.id);
+            if (element) {
+                const updated = LogRenderer.createLogEntry(log, false, ChecksManager.getEnabled());
+                updated.addEventListener('click', () => this._openLogDetail(log));
+                element.replaceWith(updated);
+                this._logElements.set(log.id, updated);
+            }
+            PerfMonitor.trackLogReceived();
+            return true;
+        }
+        return false;
+    }
+
     _trimBuffer() {
         while (this._logs.length > this._bufferSize) {
             const removed = this._logs.shift();
@@ -457,8 +524,9 @@ class LoggyLoggerApp {
         if (!this._enabledLogLevels.has(log.type.toLowerCase())) return false;
 
         // Check search filter
+        // Templated messages also match on their template, to find every message rendered from it
         const logText = LogRenderer.formatArgs(log.argList);
-        if (!LogRenderer.matchesSearch(logText)) return false;
+        if (!LogRenderer.matchesSearch(logText) && !(log.template && LogRenderer.matchesSearch(log.template))) return false;
 
         // Check file filter
         if (this._selectedFiles.size > 0) {
@@ -513,6 +581,10 @@ class LoggyLoggerApp {
         this._logElements.clear();
 
         const filtered = this._logs.filter(log => this._shouldShowLog(log));
+        if (this._sortMode === 'duration') {
+            // Stable sort: logs of equal duration, and untimed logs, stay in time order
+            filtered.sort((a, b) => (b.durationMs ?? -1) - (a.durationMs ?? -1));
+        }
         const enabledChecks = ChecksManager.getEnabled();
 
         if (filtered.length === 0 && this._logs.length === 0) {
@@ -594,6 +666,53 @@ class LoggyLoggerApp {
         });
     }
 
+    /**
+     * Add a custom log level: filter button and badge colors
+     * @param {string} name - Level name
+     * @param {string} color - CSS color of the badge
+     * @param {boolean} enabled - Show logs of this level by default
+     */
+    _addLogLevel(name, color, enabled) {
+        if (this.LOG_LEVELS.includes(name)) return;
+        this.LOG_LEVELS.push(name);
+        if (enabled) this._enabledLogLevels.add(name);
+
+        const safeName = CSS.escape(name);
+        const style = document.createElement('style');
+        style.textContent = `
+            .log-level-btn.log-${safeName} { color: ${color}; border-color: ${color}; }
+            .log-level-btn.log-${safeName}.active { background: ${color}; color: #1e1e1e; }
+            .log-entry.${safeName} { border-left-color: ${color}; }
+            .log-type.${safeName} { color: ${color}; }
+        `;
+        document.head.appendChild(style);
+
+        const btn = DOM.create('button', {
+            className: `log-level-btn log-${name}`,
+            text: name.charAt(0).toUpperCase() + name.slice(1),
+            dataset: { level: name }
+        });
+        DOM.get('logLevelButtons').appendChild(btn);
+        this._updateLogLevelButtons();
+    }
+
+    async _fetchLevels() {
+        try {
+            const response = await fetch('/api/levels');
+            if (!response.ok) return;
+            const datas = await response.json();
+            /*
+            datas = {
+                levels: { name: string, level: number, badgeColor: string }[]
+            }
+            */
+            // Custom levels at least as important as info are shown by default
+            datas.levels.forEach(l => this._addLogLevel(l.name, l.badgeColor, l.level <= 50));
+        } catch (e) {
+            console.error('Error fetching log levels:', e);
+        }
+    }
+
     _isAtBottom() {
         const container = DOM.get('logsContainer');
         const threshold = 50;
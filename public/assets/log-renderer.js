@@ -80,6 +80,7 @@ class LogRenderer {
     formatArgs(args, depth = this._objectDepth) {
         if (!args || args.length === 0) return '';
         return args.map(arg => {
+            if (this.isError(arg)) return this.formatErrorSummary(arg);
             if (typeof arg === 'object' && arg !== null) {
                 try {
                     return this.stringifyWithDepth(arg, depth);
@@ -91,6 +92,97 @@ class LogRenderer {
         }).join(' ');
     }
 
+    /**
+     * Whether a value is an error serialized by the server
+     * @param {any} value
+     * @returns {boolean}
+     */
+    isError(value) {
+        return typeof value === 'object' && value !== null && value._type === 'error';
+    }
+
+    /**
+     * One line summary of a serialized error
+     * @param {Object} err - Serialized error
+     * @returns {string}
+     */
+    formatErrorSummary(err) {
+        return `${err.name}: ${err.message}${err.code !== undefined ? ` [${err.code}]` : ''}`;
+    }
+
+    /**
+     * Collapsible HTML view of a serialized error, with its causes and AggregateError errors
+     * @param {Object} err - Serialized error
+     * @param {string} label - Prefix of the summary line
+     * @returns {string}
+     */
+    createErrorView(err, label = '') {
+        const frames = (err.stack || '').split('\n').filter(line => /^\s+at /.test(line)).map(line => line.trim());
+        const nested = (prefix, value) => this.isError(value)
+            ? this.createErrorView(value, prefix)
+            : `<div class="log-error-value">${DOM.escapeHtml(prefix + this.stringifyWithDepth(value, 5))}</div>`;
+
+        return `
+            <details class="log-error" open>
+                <summary>${DOM.escapeHtml(label + this.formatErrorSummary(err))}</summary>
+                ${frames.length ? `<pre class="log-error-stack">${DOM.escapeHtml(frames.join('\n'))}</pre>` : ''}
+                ${err.props ? `<pre class="log-error-props">${DOM.escapeHtml(this.stringifyWithDepth(err.props, 5))}</pre>` : ''}
+                ${'cause' in err ? nested('Caused by: ', err.cause) : ''}
+                ${(err.errors || []).map((e, i) => nested(`[errors][${i}] `, e)).join('')}
+            </details>
+        `;
+    }
+
+    /**
+     * Format a value tagged by the server serializer ({ _type, _value, ... })
+     * @param {Object} obj - Tagged value
+     * @param {number} maxDepth - Max depth
+     * @param {number} currentDepth - Current depth
+     * @returns {string|null} - null when the object is not a known tag
+     */
+    formatTagged(obj, maxDepth, currentDepth) {
+        const inner = (value) => this.stringifyWithDepth(value, maxDepth, currentDepth + 1);
+        const more = (items) => items.map(item => item && item._type === 'more' ? `... ${item._size} more` : inner(item));
+
+        switch (obj._type) {
+            case 'error': return JSON.stringify(this.formatErrorSummary(obj));
+            case 'bigint': return `${obj._value}n`;
+            case 'number': return obj._value;
+            case 'undefined': return 'undefined';
+            case 'symbol': return `Symbol(${obj._value})`;
+            case 'date': return obj._value;
+            case 'function': return `[Function: ${obj._value || '(anonymous)'}]`;
+            case 'circular': return '[Circular]';
+            case 'more': return `... ${obj._size} more`;
+            case 'truncated': return obj._class === 'Array' ? `[Array(${obj._size})]` : `[${obj._class}]`;
+            case 'map': {
+                if (currentDepth >= maxDepth) return `Map(${obj._size}) {...}`;
+                const items = obj._value.map(entry => Array.isArray(entry)
+                    ? `${inner(entry[0])} => ${inner(entry[1])}`
+                    : `... ${entry._size} more`);
+                return `Map(${obj._size}) {${items.length ? ' ' + items.join(', ') + ' ' : ''}}`;
+            }
+            case 'set': {
+                if (currentDepth >= maxDepth) return `Set(${obj._size}) {...}`;
+                const items = more(obj._value);
+                return `Set(${obj._size}) {${items.length ? ' ' + items.join(', ') + ' ' : ''}}`;
+            }
+            case 'buffer': {
+                const bytes = obj._value.map(b => b.toString(16).padStart(2, '0')).join(' ');
+                const left = obj._size - obj._value.length;
+                return `<Buffer ${bytes}${left > 0 ? ` ... ${left} more bytes` : ''}>`;
+            }
+            case 'typedarray': {
+                const left = obj._size - obj._value.length;
+                return `${obj._class}(${obj._size}) [${obj._value.join(', ')}${left > 0 ? `, ... ${left} more` : ''}]`;
+            }
+            case 'instance':
+                return `${obj._class} ${this.stringifyWithDepth(obj._value, maxDepth, currentDepth)}`;
+            default:
+                return null;
+        }
+    }
+
     /**
      * Stringify object with depth limit
      * @param {any} obj - Object to stringify
@@ -102,6 +194,10 @@ class LogRenderer {
         if (obj === null) return 'null';
         if (obj === undefined) return 'undefined';
         if (typeof obj !== 'object') return JSON.stringify(obj);
+        if (typeof obj._type === 'string') {
+            const tagged = this.formatTagged(obj, maxDepth, currentDepth);
+            if (tagged !== null) return tagged;
+        }
 
         if (currentDepth >= maxDepth) {
             if (Array.isArray(obj)) return `[Array(${obj.length})]`;
@@ -302,6 +398,11 @@ class LogRenderer {
             text: log.type
         });
 
+        const namespaceSpan = DOM.create('span', {
+            className: 'log-namespace',
+            text: log.namespace || ''
+        });
+
         const callLineSpan = DOM.create('span', {
             className: 'log-inline-callline',
             text: log.callLine || '',
@@ -320,6 +421,9 @@ class LogRenderer {
 
         entry.appendChild(dateSpan);
         entry.appendChild(typeSpan);
+        if (log.repeats) entry.appendChild(this._createRepeatBadge(log));
+        if (log.durationMs !== undefined) entry.appendChild(this._createDurationBadge(log));
+        if (log.namespace) entry.appendChild(namespaceSpan);
         entry.appendChild(callLineSpan);
         entry.appendChild(argsSpan);
         entry.appendChild(checksDiv);
@@ -351,6 +455,14 @@ class LogRenderer {
         this._renderCheckIcons(checksDiv, log, enabledChecks, false);
 
         leftSide.appendChild(typeSpan);
+        if (log.repeats) leftSide.appendChild(this._createRepeatBadge(log));
+        if (log.durationMs !== undefined) leftSide.appendChild(this._createDurationBadge(log));
+        if (log.namespace) {
+            leftSide.appendChild(DOM.create('span', {
+                className: 'log-namespace',
+                text: log.namespace
+            }));
+        }
         leftSide.appendChild(dateSpan);
         leftSide.appendChild(checksDiv);
 
@@ -372,6 +484,28 @@ class LogRenderer {
         return entry;
     }
 
+    /**
+     * Counter badge of a log collapsed with its repeats (dedup mode)
+     */
+    _createRepeatBadge(log) {
+        return DOM.create('span', {
+            className: 'log-repeat-badge',
+            text: `×${log.repeats + 1}`,
+            title: `Repeated ${log.repeats} more time${log.repeats > 1 ? 's' : ''}`
+        });
+    }
+
+    /**
+     * Duration badge of a log of a timer
+     */
+    _createDurationBadge(log) {
+        return DOM.create('span', {
+            className: 'log-duration-badge',
+            text: Utils.formatDuration(log.durationMs),
+            title: `${log.durationMs} ms`
+        });
+    }
+
     /**
      * Apply content with search highlighting and optional syntax highlighting
      */
@@ -438,6 +572,19 @@ class LogRenderer {
                     <label>Date</label>
                     <span>${log.date ? new Date(log.date).toLocaleString() : 'N/A'}</span>
                 </div>
+                <div class="log-detail-meta-item">
+                    <label>Namespace</label>
+                    <span>${log.namespace ? DOM.escapeHtml(log.namespace) : 'N/A'}</span>
+                </div>
+                <div class="log-detail-meta-item">
+                    <label>Occurrences</label>
+                    <span>${(log.repeats || 0) + 1}</span>
+                </div>
+                ${log.durationMs !== undefined ? `
+                <div class="log-detail-meta-item">
+                    <label>Duration</label>
+                    <span>${Utils.formatDuration(log.durationMs)}</span>
+                </div>` : ''}
                 <div class="log-detail-meta-item">
                     <label>Call Line</label>
                     <span>${log.callLine || 'N/A'}</span>
@@ -456,6 +603,18 @@ class LogRenderer {
                     ? this.applySyntaxHighlight(this.formatArgs(log.argList, 5))
                     : DOM.escapeHtml(this.formatArgs(log.argList, 5))}</pre>
             </div>
+            ${(log.argList || []).some(arg => this.isError(arg)) ? `
+            <div class="log-detail-section">
+                <h4>Errors</h4>
+                ${log.argList.filter(arg => this.isError(arg)).map(err => this.createErrorView(err)).join('')}
+            </div>` : ''}
+            ${log.template !== undefined ? `
+            <div class="log-detail-section">
+                <h4>Template</h4>
+                <pre id="logTemplateContent">${DOM.escapeHtml(log.template)}\n${useSyntax
+                    ? this.applySyntaxHighlight(this.stringifyWithDepth(log.properties || {}, 5))
+                    : DOM.escapeHtml(this.stringifyWithDepth(log.properties || {}, 5))}</pre>
+            </div>` : ''}
             <div class="log-detail-section">
                 <h4>Bound Data</h4>
                 <pre id="logBoundDataContent">${useSyntax
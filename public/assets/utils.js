@@ -122,6 +122,15 @@ const Utils = {
                 setTimeout(() => inThrottle = false, limit);
             }
         };
+    },
+
+    /**
+     * Format a duration
+     * @param {number} ms - Duration in ms
+     * @returns {string} e.g. "842.31ms", "12.41s"
+     */
+    formatDuration(ms) {
+        return ms < 1000 ? `${ms.toFixed(2)}ms` : `${(ms / 1000).toFixed(2)}s`;
     }
 };
 
@@ -126,19 +126,19 @@ class WebSocketManager {
             }));
         }
 
-        // Handle log messages
-        const logTypes = [
-            'log-silly', 'log-verbose', 'log-debug', 'log-log',
-            'log-info', 'log-success', 'log-warn', 'log-error', 'log-fatal'
-        ];
-
-        if (logTypes.includes(data.type)) {
+        // Handle log messages (built-in and custom levels)
+        if (typeof data.type === 'string' && data.type.startsWith('log-')) {
             this._onMessageCallbacks.forEach(cb => cb({
                 type: data.type,
                 callLine: data.callLine || '',
                 argList: data.argList,
                 date: data.date || new Date().toISOString(),
-                boundDatas: data.boundDatas || {}
+                boundDatas: data.boundDatas || {},
+                namespace: data.namespace || '',
+                repeats: data.repeats || 0,
+                template: data.template,
+                properties: data.properties,
+                durationMs: data.durationMs
             }));
         }
     }
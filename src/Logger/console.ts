@@ -0,0 +1,77 @@
+import type { BaseLoggerInterface } from '../index.js'
+import * as Types from '../types/index.js'
+
+type ConsoleMethod = 'log' | 'info' | 'warn' | 'error' | 'debug' | 'trace'
+type CapturedType = 'log' | 'info' | 'warn' | 'error' | 'debug' | 'verbose'
+
+const CONSOLE_TYPES: Record<ConsoleMethod, CapturedType> = { log: 'log', info: 'info', warn: 'warn', error: 'error', debug: 'debug', trace: 'verbose' }
+
+// Depth of output written by LoggyLogger itself, which must reach the real console
+let passThroughDepth = 0
+let restoreActive: (() => void) | undefined
+
+/** Run fn with console.* and stream writes going to the original outputs, even while captured */
+export function passThrough<T>(fn: () => T): T {
+    passThroughDepth++
+    try {
+        return fn()
+    } finally {
+        passThroughDepth--
+    }
+}
+
+/**
+ * Reroute console.* calls into logger, and process.stdout/stderr writes when streams is set (one log per line).
+ * Output of LoggyLogger itself, including the console transport, goes to the original console.
+ * Returns the function restoring the original console. Capturing again replaces the previous capture.
+ */
+export function captureConsole(logger: BaseLoggerInterface, options: Types.Logger.TCaptureConsoleOptions = {}): () => void {
+    restoreActive?.()
+    const restores: Array<() => void> = []
+
+    for (const [method, type] of Object.entries(CONSOLE_TYPES) as Array<[ConsoleMethod, CapturedType]>) {
+        const original = console[method]
+        const patched = (...args: unknown[]) => {
+            if (passThroughDepth > 0) return original.apply(console, args)
+            passThrough(() => logger[type](...args))
+        }
+        console[method] = patched
+        // Leave the console alone if it was patched again since
+        restores.push(() => { if (console[method] === patched) console[method] = original })
+    }
+
+    if (options.streams) {
+        for (const [stream, type] of [[process.stdout, 'info'], [process.stderr, 'error']] as const) {
+            const original = stream.write
+            let pending = ''
+            const patched = function (this: NodeJS.WriteStream, chunk: unknown, ...rest: unknown[]): boolean {
+                if (passThroughDepth > 0) return (original as (...args: unknown[]) => boolean).call(this, chunk, ...rest)
+                const lines = (pending + (typeof chunk === 'string' ? chunk : Buffer.from(chunk as Uint8Array).toString())).split('\n')
+                pending = lines.pop() ?? ''
+                passThrough(() => lines.forEach(line => logger[type](line)))
+                // Write callbacks are still expected to be called
+                const callback = rest.find(arg => typeof arg === 'function') as (() => void) | undefined
+                if (callback) process.nextTick(callback)
+                return true
+            } as typeof stream.write
+            stream.write = patched
+            restores.push(() => {
+                if (stream.write === patched) stream.write = original
+                if (pending) passThrough(() => logger[type](pending))
+                pending = ''
+            })
+        }
+    }
+
+    const restore = () => {
+        if (restoreActive !== restore) return
+        restoreActive = undefined
+        restores.forEach(fn => fn())
+    }
+    return restoreActive = restore
+}
+
+/** Restore the console patched by captureConsole(), if any */
+export function restoreConsole() {
+    restoreActive?.()
+}
@@ -0,0 +1,62 @@
+import util from 'node:util'
+import * as Types from '../types/index.js'
+import { applyBasePath } from '../Utils/stack.js'
+import { colors } from './colors.js'
+
+// Properties rendered on their own, not listed with the custom properties (errors too, for AggregateErrors)
+const KNOWN_KEYS = new Set(['name', 'message', 'stack', 'code', 'cause'])
+
+/**
+ * JSON-safe copy of an error with its cause chain and AggregateError errors.
+ * tagged: add `_type: 'error'` at every level, for the dashboard to recognize errors.
+ */
+export function serializeError(err: Error, tagged = false, seen = new Set<Error>()): Types.Logger.TSerializedError {
+    seen.add(err)
+    const nested = (value: unknown): unknown => {
+        if (!(value instanceof Error)) return value
+        return seen.has(value) ? '[Circular]' : serializeError(value, tagged, seen)
+    }
+
+    const serialized: Types.Logger.TSerializedError = { name: err.name, message: err.message, stack: err.stack }
+    if (tagged) serialized._type = 'error'
+    if ('code' in err && err.code !== undefined) serialized.code = err.code
+    if ('cause' in err && err.cause !== undefined) serialized.cause = nested(err.cause)
+    if (err instanceof AggregateError) serialized.errors = err.errors.map(nested)
+
+    // Other errors may have their own errors field, e.g. validation errors
+    const props = Object.entries(err).filter(([key]) => !KNOWN_KEYS.has(key) && !(key === 'errors' && err instanceof AggregateError))
+    if (props.length > 0) serialized.props = Object.fromEntries(props)
+    return serialized
+}
+
+// "    at fn (/home/me/app/src/a.ts:1:2)" -> "    at fn (./src/a.ts:1:2)"
+function relativeFrame(frame: string, basePath: string | undefined): string {
+    if (!basePath) return frame
+    return frame.replace(/(?:file:\/\/)?((?:\/|[A-Za-z]:[\\/])[^():]+)(?=:\d+)/, (_match, filePath: string) => applyBasePath(filePath, basePath))
+}
+
+/**
+ * Console lines of an error: header with name, message and code, stack frames made relative to the base path,
+ * custom properties, then causes and AggregateError errors, indented.
+ */
+export function formatError(err: Types.Logger.TSerializedError, cfg: Types.Logger.TLoggyConfig, indent = ''): string[] {
+    const gray = cfg.colors ? colors.FgGray : '', reset = cfg.colors ? colors.Reset : ''
+    const inspect = (value: unknown) => util.inspect(value, { colors: cfg.colors && cfg.convertObjectsColorized, depth: cfg.convertObjectsDepth, breakLength: Infinity })
+
+    const lines = [`${indent}${err.name}: ${err.message}${err.code !== undefined ? ` [${String(err.code)}]` : ''}`]
+    const frames = (err.stack ?? '').split('\n').filter(line => /^\s+at /.test(line))
+    lines.push(...frames.map(frame => `${indent}${gray}${relativeFrame(frame, cfg.basePath)}${reset}`))
+    if (err.props) lines.push(`${indent}    ${inspect(err.props)}`)
+
+    const nested = (label: string, value: unknown) => {
+        if (typeof value === 'object' && value !== null && 'message' in value) {
+            const [header, ...rest] = formatError(value as Types.Logger.TSerializedError, cfg, indent + '    ')
+            lines.push(`${indent}    ${label}${header.trimStart()}`, ...rest)
+        } else {
+            lines.push(`${indent}    ${label}${inspect(value)}`)
+        }
+    }
+    if ('cause' in err) nested('Caused by: ', err.cause)
+    err.errors?.forEach((e, i) => nested(`[errors][${i}] `, e))
+    return lines
+}
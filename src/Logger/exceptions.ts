@@ -0,0 +1,49 @@
+import type { BaseLoggerInterface } from '../index.js'
+import * as Types from '../types/index.js'
+
+const DEFAULT_FLUSH_TIMEOUT_MS = 3000
+
+/**
+ * Log uncaught exceptions and unhandled rejections at fatal level and process warnings at warn level.
+ * With exitOnError (default), the process exits with code 1 once the output is flushed, or after flushTimeoutMs.
+ * Node still prints process warnings itself, unless run with --no-warnings.
+ * Returns the function removing the handlers.
+ */
+export function handleExceptions(logger: BaseLoggerInterface, flush: () => Promise<void>, options: Types.Logger.THandleExceptionsOptions = {}): () => void {
+    const { exitOnError = true, flushTimeoutMs = DEFAULT_FLUSH_TIMEOUT_MS } = options
+    let exiting = false
+
+    const exit = async () => {
+        if (!exitOnError || exiting) return
+        exiting = true
+        let timer: NodeJS.Timeout | undefined
+        const timeout = new Promise<void>(resolve => { timer = setTimeout(resolve, flushTimeoutMs) })
+        await Promise.race([flush().catch(() => {}), timeout])
+        clearTimeout(timer)
+        process.exit(1)
+    }
+
+    const onException = (err: unknown, origin?: string) => {
+        // Node reports rejections as exceptions with --unhandled-rejections=strict
+        logger.fatal(origin === 'unhandledRejection' ? 'Unhandled rejection' : 'Uncaught exception', err)
+        void exit()
+    }
+    const onRejection = (reason: unknown) => {
+        logger.fatal('Unhandled rejection', reason)
+        void exit()
+    }
+    const onWarning = (warning: Error) => logger.warn(warning)
+
+    process.on('uncaughtException', onException)
+    process.on('unhandledRejection', onRejection)
+    process.on('warning', onWarning)
+
+    let removed = false
+    return () => {
+        if (removed) return
+        removed = true
+        process.off('uncaughtException', onException)
+        process.off('unhandledRejection', onRejection)
+        process.off('warning', onWarning)
+    }
+}
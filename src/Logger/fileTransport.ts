@@ -0,0 +1,105 @@
+import fs from 'node:fs'
+import path from 'node:path'
+import zlib from 'node:zlib'
+import { pipeline } from 'node:stream/promises'
+import * as Types from '../types/index.js'
+import { prettyFormat, jsonFormat, FORMATTERS } from './formatters.js'
+
+type Transport = Types.Logger.TTransport
+type LogFormatter = Types.Logger.TLogFormatter
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+// Plain text lines: the logger format, without any ANSI code when pretty
+const plainFormat: LogFormatter = (entry, cfg, levels) => cfg.format === 'json' || cfg.format === 'logfmt'
+    ? FORMATTERS[cfg.format](entry, cfg)
+    : prettyFormat(entry, { ...cfg, colors: false, convertObjectsColorized: false }, levels)
+
+// Local day of a date, as YYYY-MM-DD
+function dayOf(date: Date): string {
+    return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`
+}
+
+function escapeRegExp(str: string): string {
+    return str.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+}
+
+async function gzipFile(filePath: string) {
+    await pipeline(fs.createReadStream(filePath), zlib.createGzip(), fs.createWriteStream(filePath + '.gz'))
+    await fs.promises.unlink(filePath)
+}
+
+/**
+ * Writes plain text lines (or NDJSON) to a file, with optional rotation and retention.
+ * Rotated files are named "<name>.<YYYY-MM-DD>.<index><ext>" and gzipped by default.
+ */
+export function fileTransport(options: Types.Logger.TFileTransportOptions): Transport {
+    const { filename, json = false, maxSize, daily = false, compress = true, maxFiles, maxDays } = options
+    const file = path.resolve(filename)
+    const dir = path.dirname(file), ext = path.extname(file), base = path.basename(file, ext)
+    const rotatedPattern = new RegExp(`^${escapeRegExp(base)}\\.\\d{4}-\\d{2}-\\d{2}\\.\\d+${escapeRegExp(ext)}(\\.gz)?$`)
+
+    let fd: number | null = null
+    let size = 0
+    let day = ''
+    // Compression and retention run in the background, chained to keep them ordered
+    let pending: Promise<void> = Promise.resolve()
+
+    const open = () => {
+        fs.mkdirSync(dir, { recursive: true })
+        fd = fs.openSync(file, 'a')
+        const stat = fs.fstatSync(fd)
+        size = stat.size
+        day = dayOf(stat.size > 0 ? stat.mtime : new Date())
+    }
+
+    // Remove rotated files beyond maxFiles or older than maxDays
+    const prune = async () => {
+        if (maxFiles === undefined && maxDays === undefined) return
+        const rotated = await Promise.all((await fs.promises.readdir(dir))
+            .filter(name => rotatedPattern.test(name))
+            .map(async name => ({ path: path.join(dir, name), mtime: (await fs.promises.stat(path.join(dir, name))).mtimeMs })))
+        rotated.sort((a, b) => b.mtime - a.mtime)
+        const now = Date.now()
+        await Promise.all(rotated
+            .filter((f, i) => (maxFiles !== undefined && i >= maxFiles) || (maxDays !== undefined && now - f.mtime > maxDays * DAY_MS))
+            .map(f => fs.promises.unlink(f.path).catch(() => {})))
+    }
+
+    const rotate = () => {
+        fs.closeSync(fd!)
+        let index = 1, target: string
+        do { target = path.join(dir, `${base}.${day}.${index++}${ext}`) } while (fs.existsSync(target) || fs.existsSync(target + '.gz'))
+        fs.renameSync(file, target)
+        open()
+        pending = pending
+            .then(async () => {
+                if (compress) await gzipFile(target)
+                await prune()
+            })
+            .catch(err => console.warn(`[LoggyLogger] Failed to process rotated log file ${target}:`, err))
+    }
+
+    return {
+        level: options.level,
+        format: options.format ?? (json ? jsonFormat : plainFormat),
+        write: (entry, lines) => {
+            try {
+                const data = lines.join('\n') + '\n'
+                const bytes = Buffer.byteLength(data)
+                if (fd === null) open()
+                if ((daily && dayOf(entry.date) !== day) || (maxSize !== undefined && size > 0 && size + bytes > maxSize)) rotate()
+                fs.writeSync(fd!, data)
+                size += bytes
+            } catch (err) {
+                console.warn(`[LoggyLogger] Failed to write to log file ${file}:`, err)
+            }
+        },
+        flush: () => pending,
+        close: async () => {
+            await pending
+            if (fd !== null) fs.closeSync(fd)
+            fd = null
+        }
+    }
+}
@@ -0,0 +1,235 @@
+import util from 'node:util'
+import * as Types from '../types/index.js'
+import { colors } from './colors.js'
+import { emojis } from './emojis.js'
+import { serializeError, formatError } from './errors.js'
+import { formatDuration } from '../Utils/time.js'
+
+type LogType = Types.Logger.TLogType
+type LogTypeName = Types.Logger.TLogEntry['type']
+type LineType = Types.Logger.TMultipleLogLineType
+
+const FIRST_CHARS: Record<LineType, string> = { base: '┃', mlstart: '┠', mlstep: '┇', mlend: '┇' }
+const EMOJI_MAPS: Record<'base' | 'mlstart', Record<LogType, Types.Logger.EmojiType>> = {
+    base: { silly: 'empty__', verbose: 'empty__', debug: 'empty__', log: 'empty__', info: 'dot____', success: 'dot____', warn: 'warn___', error: 'cross__', fatal: 'cross__', unknown: 'interro' },
+    mlstart: { silly: 'mlstart2', verbose: 'mlstart2', debug: 'mlstart2', log: 'mlstart2', info: 'dot____', success: 'dot____', warn: 'warn___', error: 'cross__', fatal: 'cross__', unknown: 'interro' }
+}
+const LOG_PATTERNS: Record<LogType, [string, string, string]> = {
+    silly: ['{FgGray}', '{date} {line}  S ', ''],
+    verbose: ['{FgGray}', '{date} {line}  V ', ''],
+    debug: ['{FgGray}', '{date} {line}  D ', ''],
+    log: ['{FgWhite}', '{date} {FgGray}{line}{Reset} {BgGray}{FgWhite} L {Reset}{FgWhite}', ''],
+    info: ['{FgBlue}', '{FgWhite}{date} {FgGray}{line}{Reset} {BgBlue}{FgWhite} I {Reset}{FgBlue}', ''],
+    success: ['{FgGreen}', '{FgWhite}{date} {FgGray}{line}{Reset} {BgGreen}{FgBlack} S {Reset}{FgGreen}', ''],
+    warn: ['{FgYellow}', '{date} {FgGray}{line}{Reset} {BgYellow}{FgBlack} W {Reset}{FgYellow}', ''],
+    error: ['{FgRed}', '{date} {FgGray}{line}{Reset} {BgRed}{FgBlack} E {Reset}{FgRed}', ''],
+    fatal: ['{FgRed}', '{date} {FgGray}{line}{Reset} {BgRed}{FgBlack} F {Reset}{FgRed}', ''],
+    unknown: ['{FgGray}', '{date} {line}  ? ', '']
+}
+
+function getStartChar(cfg: Types.Logger.TLoggyConfig, type: LogTypeName, line: LineType, custom: Types.Logger.TCustomLevel | undefined): string {
+    const first = FIRST_CHARS[line]
+    if (line === 'mlstep') return first + emojis.mlstep2
+    if (line === 'mlend') return first + emojis.mlend2
+    if (!cfg.emojis) return first + emojis.none___
+    if (custom) return first + custom.emoji
+    const map = EMOJI_MAPS[line === 'base' ? 'base' : 'mlstart']
+    return first + emojis[map[type as LogType] || 'interro']
+}
+
+function buildPattern(cfg: Types.Logger.TLoggyConfig, type: LogTypeName, line: LineType, date: Date, callLine: string, namespace: string, levels?: Types.Logger.TCustomLevels): string {
+    const custom = Object.hasOwn(LOG_PATTERNS, type) ? undefined : levels?.get(type)
+    const [pre, mid] = LOG_PATTERNS[type as LogType] || custom?.pattern || LOG_PATTERNS.unknown
+    let p = `${pre}${getStartChar(cfg, type, line, custom)}  ${mid} `
+    if (namespace) p += `{FgCyan}{namespace}{Reset}${pre} `
+
+    // Process colors
+    for (const [k, v] of Object.entries(colors)) p = p.split(`{${k}}`).join(cfg.colors ? v : '')
+
+    // Process date
+    let d = date.toISOString()
+    if (cfg.cleanDate) d = d.replace(/[TZ]/g, ' ').trim()
+    if (line === 'mlstep' || line === 'mlend') d = ' '.repeat(d.length)
+    p = p.replace('{date}', d)
+
+    // Process line
+    p = p.replace('{line}', cfg.showCallLines ? `(${callLine})` : '')
+
+    // Process namespace
+    if (namespace) p = p.replace('{namespace}', line === 'mlstep' || line === 'mlend' ? ' '.repeat(namespace.length + 2) : `[${namespace}]`)
+    return p
+}
+
+// Truncate a rendered value to maxLength characters (0 = no limit)
+function truncate(str: string, maxLength: number): string {
+    return maxLength > 0 && str.length > maxLength ? str.slice(0, maxLength) + '…' : str
+}
+
+// Render bound datas as a single trailing block, dimmed when colors are enabled
+function formatBoundDatas(boundDatas: Record<string, unknown>, cfg: Types.Logger.TLoggyConfig): string {
+    const keys = Object.keys(boundDatas).filter(k => !cfg.boundDatasKeys || cfg.boundDatasKeys.includes(k))
+    if (keys.length === 0) return ''
+
+    let block: string
+    if (cfg.boundDatasStyle === 'inspect') {
+        const picked = Object.fromEntries(keys.map(k => [k, boundDatas[k]]))
+        block = truncate(util.inspect(picked, { colors: false, depth: cfg.convertObjectsDepth, breakLength: Infinity, compact: true }), cfg.boundDatasMaxLength)
+    } else {
+        block = keys.map(k => {
+            const v = boundDatas[k]
+            const str = typeof v === 'string' ? v : util.inspect(v, { colors: false, depth: cfg.convertObjectsDepth, breakLength: Infinity, compact: true })
+            return `${k}=${truncate(str, cfg.boundDatasMaxLength)}`
+        }).join(' ')
+    }
+    return cfg.colors ? `${colors.Dim}${block}${colors.Reset}` : block
+}
+
+/**
+ * Built-in pretty format, used by transports without their own formatter.
+ * Returns one line per output line, multi-line logs being decorated with box characters.
+ */
+export function prettyFormat(entry: Types.Logger.TLogEntry, cfg: Types.Logger.TLoggyConfig, levels?: Types.Logger.TCustomLevels): string[] {
+    const lines = formatArgs(entry, cfg, levels)
+    if (entry.durationMs !== undefined) {
+        const duration = `(${formatDuration(entry.durationMs)})`
+        lines[lines.length - 1] += ' ' + (cfg.colors ? `${colors.FgGray}${duration}${colors.Reset}` : duration)
+    }
+    const bound = cfg.showBoundDatas ? formatBoundDatas(entry.boundDatas, cfg) : ''
+    if (bound) lines[lines.length - 1] += ' ' + bound
+    return lines
+}
+
+// Decorated lines of the log arguments
+function formatArgs(entry: Types.Logger.TLogEntry, cfg: Types.Logger.TLoggyConfig, levels?: Types.Logger.TCustomLevels): string[] {
+    const { type, date, callLine: line, args, namespace } = entry
+
+    // Patterns are built on first use, single line logs only need the base one
+    const built: Partial<Record<LineType, string>> = {}
+    const pattern = (kind: LineType) => built[kind] ??= buildPattern(cfg, type, kind, date, line, namespace, levels)
+
+    // Fast path: single string without newlines
+    if (args.length === 1 && typeof args[0] === 'string' && !args[0].includes('\n')) {
+        return [pattern('base') + args[0]]
+    }
+
+    // Fast path: all strings
+    if (args.every(a => typeof a === 'string')) {
+        const full = args.join(' ')
+        if (!full.includes('\n')) return [pattern('base') + full]
+        const lines = full.split('\n')
+        return lines.map((l, i) => (i === 0 ? pattern('mlstart') : i === lines.length - 1 ? pattern('mlend') : pattern('mlstep')) + l)
+    }
+
+    // Complex path: mixed types
+    const out: string[] = []
+    args.forEach((arg, i) => {
+        const isFirst = i === 0, isLast = i === args.length - 1
+        if (typeof arg === 'string') {
+            const lines = arg.split('\n')
+            lines.forEach((l, j) => {
+                const p = (isFirst && j === 0 && lines.length === 1 && args.length === 1) ? pattern('base')
+                    : (isFirst && j === 0) ? pattern('mlstart')
+                    : (isLast && j === lines.length - 1) ? pattern('mlend') : pattern('mlstep')
+                out.push(p + l)
+            })
+        } else if (arg instanceof Error || cfg.convertObjects) {
+            // Errors are always rendered in full, other objects only with convertObjects
+            const inspected = arg instanceof Error ? formatError(serializeError(arg), cfg)
+                : util.inspect(arg, { colors: cfg.convertObjectsColorized, depth: cfg.convertObjectsDepth }).split('\n')
+            inspected.forEach((l, j, arr) => {
+                const p = (isFirst && j === 0) ? pattern('mlstart') : (isLast && j === arr.length - 1) ? pattern('mlend') : pattern('mlstep')
+                out.push(p + (cfg.colors ? colors.Reset : '') + l)
+            })
+        } else {
+            out.push((isFirst ? pattern('mlstart') : isLast ? pattern('mlend') : pattern('mlstep')) + String(arg))
+        }
+    })
+    return out
+}
+
+// JSON.stringify replacer keeping bigints, errors and circular references printable.
+// Only objects among their own parents are circular, objects referenced twice elsewhere are kept.
+function safeReplacer() {
+    const ancestors: object[] = []
+    return function (this: unknown, _key: string, value: unknown): unknown {
+        if (typeof value === 'bigint') return value.toString()
+        if (value instanceof Error) value = serializeError(value)
+        if (typeof value !== 'object' || value === null) return value
+        // `this` is the object holding the value, drop the objects serialized since
+        while (ancestors.length > 0 && ancestors[ancestors.length - 1] !== this) ancestors.pop()
+        if (ancestors.includes(value)) return '[Circular]'
+        ancestors.push(value)
+        return value
+    }
+}
+
+/**
+ * JSON format: a single line JSON object per log (NDJSON).
+ * String arguments are joined into `message`, other arguments are kept in `args`.
+ */
+export function jsonFormat(entry: Types.Logger.TLogEntry, _cfg: Types.Logger.TLoggyConfig): string {
+    const message = entry.args.filter(a => typeof a === 'string').join(' ')
+    const args = entry.args.filter(a => typeof a !== 'string')
+    return JSON.stringify({
+        timestamp: entry.date.toISOString(),
+        type: entry.type,
+        level: entry.level,
+        callLine: entry.callLine,
+        namespace: entry.namespace,
+        message,
+        // Only set for messages rendered from a template
+        template: entry.template,
+        properties: entry.properties,
+        // Only set for logs of timers
+        durationMs: entry.durationMs,
+        args,
+        boundDatas: entry.boundDatas
+    }, safeReplacer())
+}
+
+// logfmt value: bare when possible, quoted and escaped otherwise
+function logfmtValue(value: unknown): string {
+    const str = typeof value === 'string' ? value : JSON.stringify(value, safeReplacer()) ?? String(value)
+    return /^[^\s"=\\]+$/.test(str) ? str : JSON.stringify(str)
+}
+
+// Keys of the logfmt pairs written for every log
+const LOGFMT_KEYS = ['timestamp', 'type', 'level', 'callLine', 'namespace', 'message', 'template', 'durationMs', 'args']
+
+// Extra pairs, prefixed when their key is reserved or already written: `boundDatas.level=admin`
+function pushExtraPairs(pairs: [string, unknown][], prefix: string, datas: Record<string, unknown>) {
+    for (const [k, v] of Object.entries(datas)) {
+        const taken = LOGFMT_KEYS.includes(k) || pairs.some(([key]) => key === k)
+        pairs.push([taken ? `${prefix}.${k}` : k, v])
+    }
+}
+
+/**
+ * logfmt format: a single line of key=value pairs per log, template properties and bound datas being appended as extra pairs.
+ * Their keys are prefixed with `properties.` and `boundDatas.` when they collide with the keys of the log or of each other.
+ */
+export function logfmtFormat(entry: Types.Logger.TLogEntry, _cfg: Types.Logger.TLoggyConfig): string {
+    const pairs: [string, unknown][] = [
+        ['timestamp', entry.date.toISOString()],
+        ['type', entry.type],
+        ['level', entry.level],
+        ['callLine', entry.callLine],
+        ['namespace', entry.namespace],
+        ['message', entry.args.filter(a => typeof a === 'string').join(' ')]
+    ]
+    if (entry.template !== undefined) {
+        pairs.push(['template', entry.template])
+        pushExtraPairs(pairs, 'properties', entry.properties ?? {})
+    }
+    if (entry.durationMs !== undefined) pairs.push(['durationMs', entry.durationMs])
+    const args = entry.args.filter(a => typeof a !== 'string')
+    if (args.length > 0) pairs.push(['args', args])
+    pushExtraPairs(pairs, 'boundDatas', entry.boundDatas)
+    return pairs.map(([k, v]) => `${k}=${logfmtValue(v)}`).join(' ')
+}
+
+export const FORMATTERS: Readonly<Record<Types.Logger.TLogFormat, Types.Logger.TLogFormatter>> = {
+    pretty: prettyFormat,
+    json: jsonFormat,
+    logfmt: logfmtFormat
+}
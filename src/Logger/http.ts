@@ -0,0 +1,59 @@
+import { randomUUID } from 'node:crypto'
+import type { IncomingMessage, ServerResponse } from 'node:http'
+import type { BaseLoggerInterface } from '../index.js'
+import * as Types from '../types/index.js'
+
+// Fastify-style frameworks wrap the node:http objects, the originals are under `raw`
+type HttpRequest = IncomingMessage | { raw: IncomingMessage }
+type HttpResponse = ServerResponse | { raw: ServerResponse }
+
+/** Request logging middleware: (req, res) for node:http, (req, res, next) for Express, (request, reply, done) for Fastify hooks */
+export type HttpMiddleware = (req: HttpRequest, res: HttpResponse, next?: (err?: unknown) => void) => void
+
+type RunWithContext = <T>(context: Record<string, unknown>, fn: () => T) => T
+
+function statusType(status: number): 'error' | 'warn' | 'info' {
+    return status >= 500 ? 'error' : status >= 400 ? 'warn' : 'info'
+}
+
+/**
+ * Middleware logging one line per request when its response is sent, with the request id bound to it.
+ * next runs inside a context holding the request id, so every log of the request carries it.
+ */
+export function createHttpLogger(logger: BaseLoggerInterface, runWithContext: RunWithContext, options: Types.Logger.THttpLoggerOptions = {}): HttpMiddleware {
+    const header = options.requestIdHeader ?? 'x-request-id'
+
+    return (req, res, next) => {
+        const request = 'raw' in req ? req.raw : req
+        const response = 'raw' in res ? res.raw : res
+        if (options.ignore?.(request)) return next?.()
+
+        const incomingId = header ? request.headers[header.toLowerCase()] : undefined
+        const requestId = typeof incomingId === 'string' && incomingId ? incomingId : options.generateRequestId?.(request) ?? randomUUID()
+        if (header && !response.headersSent) response.setHeader(header, requestId)
+
+        const requestLogger = logger.bind({ requestId })
+        const start = process.hrtime.bigint()
+        let logged = false
+        // 'close' without 'finish': the client went away before the response was sent
+        const logRequest = (aborted: boolean) => {
+            if (logged) return
+            logged = true
+            const contentLength = Number(response.getHeader('content-length'))
+            const data = {
+                method: request.method,
+                // Express rewrites url in mounted routers
+                url: (req as { originalUrl?: string }).originalUrl ?? request.url,
+                status: response.statusCode,
+                durationMs: Math.round(Number(process.hrtime.bigint() - start) / 10_000) / 100,
+                contentLength: Number.isFinite(contentLength) ? contentLength : undefined,
+            }
+            if (aborted) requestLogger.warn('{method} {url} aborted after {durationMs}ms', data)
+            else requestLogger[statusType(data.status)]('{method} {url} {status} {durationMs}ms', data)
+        }
+        response.once('finish', () => logRequest(false))
+        response.once('close', () => logRequest(!response.writableFinished))
+
+        if (next) runWithContext({ requestId }, () => next())
+    }
+}
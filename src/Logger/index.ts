@@ -1,44 +1,87 @@
-import util from 'node:util'
 import * as Types from '../types/index.js'
 import { colors } from './colors.js'
 import { emojis } from './emojis.js'
-import { LEVELS } from './levels.js'
+import { LEVELS, getTypeLevel } from './levels.js'
+import { consoleTransport } from './transports.js'
+import { FORMATTERS } from './formatters.js'
+import { getNamespaceLevel } from './namespaces.js'
+import { redactRecord } from './redact.js'
+import { acceptLog } from './rateLimit.js'
+import { formatMessage } from './message.js'
+import { passThrough } from './console.js'
+import { JSONBigInt } from '../Utils/JSONBigInt.js'
 
-type LogType = Types.Logger.TLogType
-type LineType = Types.Logger.TMultipleLogLineType
+type LogType = Types.Logger.TLogEntry['type']
 
-const FIRST_CHARS: Record<LineType, string> = { base: '┃', mlstart: '┠', mlstep: '┇', mlend: '┇' }
-const EMOJI_MAPS: Record<'base' | 'mlstart', Record<LogType, Types.Logger.EmojiType>> = {
-    base: { silly: 'empty__', verbose: 'empty__', debug: 'empty__', log: 'empty__', info: 'dot____', success: 'dot____', warn: 'warn___', error: 'cross__', fatal: 'cross__', unknown: 'interro' },
-    mlstart: { silly: 'mlstart2', verbose: 'mlstart2', debug: 'mlstart2', log: 'mlstart2', info: 'dot____', success: 'dot____', warn: 'warn___', error: 'cross__', fatal: 'cross__', unknown: 'interro' }
+// Last log of a logger in dedup mode, with the number of identical logs held since it was output
+interface HeldRecord {
+    record: Types.Logger.TLogEntry
+    // Contents of the record when it was held, its args may be changed by the caller since
+    key: string
+    // Latest repeat, output with the repeat count
+    last?: Types.Logger.TLogEntry
+    repeats: number
+    timer?: NodeJS.Timeout
 }
-const LOG_PATTERNS: Record<LogType, [string, string, string]> = {
-    silly: ['{FgGray}', '{date} {line}  S ', ''],
-    verbose: ['{FgGray}', '{date} {line}  V ', ''],
-    debug: ['{FgGray}', '{date} {line}  D ', ''],
-    log: ['{FgWhite}', '{date} {FgGray}{line}{Reset} {BgGray}{FgWhite} L {Reset}{FgWhite}', ''],
-    info: ['{FgBlue}', '{FgWhite}{date} {FgGray}{line}{Reset} {BgBlue}{FgWhite} I {Reset}{FgBlue}', ''],
-    success: ['{FgGreen}', '{FgWhite}{date} {FgGray}{line}{Reset} {BgGreen}{FgBlack} S {Reset}{FgGreen}', ''],
-    warn: ['{FgYellow}', '{date} {FgGray}{line}{Reset} {BgYellow}{FgBlack} W {Reset}{FgYellow}', ''],
-    error: ['{FgRed}', '{date} {FgGray}{line}{Reset} {BgRed}{FgBlack} E {Reset}{FgRed}', ''],
-    fatal: ['{FgRed}', '{date} {FgGray}{line}{Reset} {BgRed}{FgBlack} F {Reset}{FgRed}', ''],
-    unknown: ['{FgGray}', '{date} {line}  ? ', '']
+
+// Full serialization of the contents of a record, comparing logs as they were when logged
+const DEDUP_KEY_OPTIONS: Types.Logger.TSerializeOptions = { maxDepth: Infinity, maxEntries: Infinity, maxStringLength: Infinity }
+function dedupKey(record: Types.Logger.TLogEntry): string {
+    return `${record.type} ${JSONBigInt.stringify([record.args, record.boundDatas], DEDUP_KEY_OPTIONS)}`
 }
 
-export type BroadcastFn = (type: string, callLine: string, date: Date, args: unknown[], boundDatas: Record<string, unknown>) => void
+// Optional parts of a broadcast, only passed when one is set
+export interface BroadcastMeta {
+    /** Number of identical logs collapsed into the previous entry (dedup mode) */
+    repeats?: number
+    template?: string
+    properties?: Record<string, unknown>
+    durationMs?: number
+}
+export type BroadcastFn = (type: string, callLine: string, date: Date, args: unknown[], boundDatas: Record<string, unknown>, meta?: BroadcastMeta) => void
 export type CallLineGetterFn = () => string
+export type ContextGetterFn = () => Record<string, unknown> | undefined
+export type ConfigSourceFn = () => Types.Logger.TLoggyConfig
+
+// Thunks are arrow functions without parameters: "() => ...". Other functions (classes, regular, async,
+// bound, built-in functions and methods) are logged as values, never called
+const THUNK_SOURCE = /^\(\s*\)\s*=>/
+function isLazyArg(arg: unknown): arg is () => unknown {
+    return typeof arg === 'function' && !Object.hasOwn(arg, 'prototype') && THUNK_SOURCE.test(Function.prototype.toString.call(arg))
+}
+
+// logger.debug(() => [...]): the thunk returns the args (or a single arg)
+function resolveLazyArgs(thunk: () => unknown): unknown[] {
+    try {
+        const result = thunk()
+        return Array.isArray(result) ? result : [result]
+    } catch (err) {
+        return ['[LoggyLogger] Lazy log arguments failed:', err]
+    }
+}
 
 export class Logger {
     private _overrides?: Types.Logger.TLoggyConfigOptional
     private readonly _useGlobal: boolean
     private _broadcast?: BroadcastFn
+    private _broadcastActive?: () => boolean
     private _callLineGetter?: CallLineGetterFn
+    private _hooks?: Types.Logger.TLogHook[]
+    private _levels?: Types.Logger.TCustomLevels
+    private _contextGetter?: ContextGetterFn
+    private _configSource?: ConfigSourceFn
     private _boundDatas: Record<string, unknown> = {}
+    private _namespace = ''
+    private _held?: HeldRecord
 
-    static globalConfig: Types.Logger.TLoggyConfig = {
+    static readonly DEFAULT_CONFIG: Readonly<Types.Logger.TLoggyConfig> = Object.freeze({
         level: LEVELS.DEFAULT, colors: true, emojis: true, showCallLines: false,
-        cleanDate: true, convertObjects: false, convertObjectsColorized: true, convertObjectsDepth: 2
-    }
+        cleanDate: true, convertObjects: false, convertObjectsColorized: true, convertObjectsDepth: 2,
+        showBoundDatas: false, boundDatasStyle: 'keyvalue', boundDatasKeys: null, boundDatasMaxLength: 0,
+        namespaces: '', format: 'pretty', transports: [consoleTransport()], redact: null, rateLimit: null, dedup: false, serialize: {}, sourceMaps: true
+    })
+    // Shared by the loggers without a config source, and by the default Loggy instance
+    static globalConfig: Types.Logger.TLoggyConfig = { ...Logger.DEFAULT_CONFIG }
     static readonly LEVELS = LEVELS
     static readonly colors = colors
     static readonly emojis = emojis
@@ -49,15 +92,32 @@ export class Logger {
         this._boundDatas = boundDatas
     }
 
-    setBroadcast(fn: BroadcastFn | undefined) { this._broadcast = fn }
+    // isActive: whether someone listens to the broadcast, records are not built for disabled levels otherwise
+    setBroadcast(fn: BroadcastFn | undefined, isActive?: () => boolean) {
+        this._broadcast = fn
+        this._broadcastActive = isActive
+    }
     setCallLineGetter(fn: CallLineGetterFn | undefined) { this._callLineGetter = fn }
+    // The list is read on each log, hooks added to it later apply too
+    setHooks(hooks: Types.Logger.TLogHook[] | undefined) { this._hooks = hooks }
+    // Custom levels the logger knows, for record levels and formatting
+    setLevels(levels: Types.Logger.TCustomLevels | undefined) { this._levels = levels }
+    // Context of the current async execution, merged between the logger and the bound interface datas
+    setContextGetter(fn: ContextGetterFn | undefined) { this._contextGetter = fn }
+
+    // Config the overrides apply to, instead of the static globalConfig (each LoggyLogger instance has its own)
+    setConfigSource(fn: ConfigSourceFn | undefined) { this._configSource = fn }
 
     get localConfig(): Types.Logger.TLoggyConfig {
-        return this._useGlobal ? Logger.globalConfig : { ...Logger.globalConfig, ...this._overrides }
+        const base = this._configSource?.() ?? Logger.globalConfig
+        return this._useGlobal ? base : { ...base, ...this._overrides }
     }
 
     getBoundDatas() { return this._boundDatas }
 
+    setNamespace(namespace: string) { this._namespace = namespace }
+    getNamespace() { return this._namespace }
+
     static get conf() {
         return {
             set: (c: Types.Logger.TLoggyConfigOptional) => { Logger.globalConfig = { ...Logger.globalConfig, ...c } },
@@ -78,35 +138,9 @@ export class Logger {
 
     clearConfig() { this._overrides = undefined }
 
-    private _getStartChar(type: LogType, line: LineType): string {
-        const first = FIRST_CHARS[line]
-        if (line === 'mlstep') return first + emojis.mlstep2
-        if (line === 'mlend') return first + emojis.mlend2
-        const map = EMOJI_MAPS[line === 'base' ? 'base' : 'mlstart']
-        return first + (this.localConfig.emojis ? emojis[map[type] || 'interro'] : emojis.none___)
-    }
-
-    private _buildPattern(type: LogType, line: LineType, date: Date, callLine: string): string {
-        const cfg = this.localConfig
-        const [pre, mid] = LOG_PATTERNS[type] || LOG_PATTERNS.unknown
-        let p = `${pre}${this._getStartChar(type, line)}  ${mid} `
-
-        // Process colors
-        for (const [k, v] of Object.entries(colors)) p = p.split(`{${k}}`).join(cfg.colors ? v : '')
-
-        // Process date
-        let d = date.toISOString()
-        if (cfg.cleanDate) d = d.replace(/[TZ]/g, ' ').trim()
-        if (line === 'mlstep' || line === 'mlend') d = ' '.repeat(d.length)
-        p = p.replace('{date}', d)
-
-        // Process line
-        p = p.replace('{line}', cfg.showCallLines ? `(${callLine})` : '')
-        return p
-    }
-
-    private _getCallLine(): string {
-        if (!this.localConfig.showCallLines) return ''
+    // force: resolve the call line even when it is not displayed (rate limiting keys)
+    private _getCallLine(force = false): string {
+        if (!force && !this.localConfig.showCallLines) return ''
         // Use custom call line getter if available (set by LoggyLogger for external caller detection)
         if (this._callLineGetter) {
             return this._callLineGetter()
@@ -122,136 +156,220 @@ export class Logger {
         } catch { return '!error!' }
     }
 
-    private _log(type: LogType, args: unknown[]): void {
-        const date = new Date(), line = this._getCallLine(), cfg = this.localConfig
+    // Single entry point of every log call: builds the record shared by the dashboard and the transports
+    private _dispatch(type: LogType, args: unknown[], extraBoundDatas: Record<string, unknown> = {}, durationMs?: number): void {
+        const cfg = this.localConfig
+        let transports = this._transportsFor(cfg, getTypeLevel(type, this._levels))
+        // Nobody outputs this log: no stack capture, no record
+        if (!transports.length && !this._isBroadcasting()) return
+
+        // Rate limits are keyed on the call site, even when call lines are not displayed
+        const callSite = cfg.rateLimit ? this._getCallLine(true) : undefined
+        if (cfg.rateLimit && !this._acceptRate(type, cfg.rateLimit, callSite ?? '')) return
+
+        // Lazy arguments, resolved once now that some output uses the record
+        if (args.length === 1 && isLazyArg(args[0])) args = resolveLazyArgs(args[0])
 
-        // Broadcast to websocket if available
-        const patterns: Record<LineType, string> = {
-            base: this._buildPattern(type, 'base', date, line),
-            mlstart: this._buildPattern(type, 'mlstart', date, line),
-            mlstep: this._buildPattern(type, 'mlstep', date, line),
-            mlend: this._buildPattern(type, 'mlend', date, line)
+        const callLine = cfg.showCallLines ? callSite ?? this._getCallLine() : ''
+        let record: Types.Logger.TLogEntry | null = this._createRecord(type, args, { ...this._boundDatas, ...this._contextGetter?.(), ...extraBoundDatas }, callLine, durationMs)
+
+        if (this._hooks?.length) {
+            record = this._runHooks(record)
+            if (!record) return
+            if (record.level !== getTypeLevel(type, this._levels)) {
+                transports = this._transportsFor(cfg, record.level)
+                if (!transports.length && !this._isBroadcasting()) return
+            }
         }
 
-        // Fast path: single string without newlines
-        if (args.length === 1 && typeof args[0] === 'string' && !args[0].includes('\n')) {
-            console.log(patterns.base + args[0])
-            return
+        // Redaction comes after hooks, so it also covers what they added
+        if (cfg.redact) record = Object.freeze({ ...record, ...redactRecord(cfg.redact, record.args, record.boundDatas) })
+        // Templates and format strings are rendered from the redacted values
+        const message = formatMessage(record.args)
+        if (message) record = Object.freeze({ ...record, ...message })
+        if (cfg.dedup && this._holdRepeat(record)) return
+        this._output(record, transports)
+    }
+
+    // Hooks run in the order they were added, each one receiving the record returned by the previous one
+    private _runHooks(record: Types.Logger.TLogEntry): Types.Logger.TLogEntry | null {
+        for (const hook of this._hooks ?? []) {
+            let result: Types.Logger.TLogEntry | null | undefined | void
+            try {
+                result = hook(record)
+            } catch (err) {
+                console.warn(`[LoggyLogger] Log hook failed, record kept unchanged: ${err instanceof Error ? err.message : String(err)}`)
+                continue
+            }
+            if (result === null) return null
+            if (result === undefined || result === record) continue
+            // Changing the type changes the level
+            const level = result.type !== record.type ? getTypeLevel(result.type, this._levels) : result.level
+            record = Object.freeze({ ...result, level })
         }
+        return record
+    }
+
+    private _createRecord(type: LogType, args: unknown[], boundDatas: Record<string, unknown>, callLine = '', durationMs?: number): Types.Logger.TLogEntry {
+        const record: Types.Logger.TLogEntry = { type, level: getTypeLevel(type, this._levels), date: new Date(), callLine, namespace: this._namespace, args, boundDatas }
+        return Object.freeze(durationMs === undefined ? record : { ...record, durationMs })
+    }
+
+    // Transports accepting a level: each transport filters on its own level, falling back to the logger level
+    private _transportsFor(cfg: Types.Logger.TLoggyConfig, level: number): Types.Logger.TTransport[] {
+        // Namespace patterns take precedence over the configured level
+        const threshold = getNamespaceLevel(cfg.namespaces, this._namespace) ?? cfg.level
+        return cfg.transports.filter(transport => (transport.level ?? threshold) >= level)
+    }
 
-        // Fast path: all strings
-        if (args.every(a => typeof a === 'string')) {
-            const full = args.join(' ')
-            if (!full.includes('\n')) { console.log(patterns.base + full); return }
-            const lines = full.split('\n')
-            lines.forEach((l, i) => console.log((i === 0 ? patterns.mlstart : i === lines.length - 1 ? patterns.mlend : patterns.mlstep) + l))
-            return
+    private _isBroadcasting(): boolean {
+        return this._broadcast !== undefined && (this._broadcastActive?.() ?? true)
+    }
+
+    private _output(record: Types.Logger.TLogEntry, transports = this._transportsFor(this.localConfig, record.level), repeats?: number) {
+        this.tryBroadcast(record, repeats)
+        this._log(record, transports)
+    }
+
+    private _acceptRate(type: LogType, rateLimit: Types.Logger.TRateLimitOptions, callSite: string): boolean {
+        return acceptLog(rateLimit, type, callSite, (summaryType, message) => {
+            // Summaries bypass the limits, and carry no bound datas
+            this._output(this._createRecord(summaryType, [message], {}))
+        })
+    }
+
+    // Dedup mode: whether the log repeats the previous one and is held instead of being output
+    private _holdRepeat(record: Types.Logger.TLogEntry): boolean {
+        const key = dedupKey(record)
+        const hold = this._held
+        if (hold?.key === key) {
+            hold.last = record
+            // The timer is not restarted, so a log repeating forever still gets its count output regularly
+            if (hold.repeats++ === 0) {
+                const dedup = this.localConfig.dedup
+                hold.timer = setTimeout(() => this._flushRepeats(), (typeof dedup === 'object' && dedup.timeoutMs) || 5000)
+                hold.timer.unref()
+            }
+            return true
         }
+        this._flushRepeats()
+        this._held = { record, key, repeats: 0 }
+        return false
+    }
+
+    // Output the repeat count of the held log, if any
+    private _flushRepeats() {
+        const held = this._held
+        if (!held?.repeats) return
+        clearTimeout(held.timer)
+        const repeats = held.repeats
+        held.repeats = 0
+        // The dashboard updates the counter of the repeated entry, the transports get a new line dated as the latest repeat
+        const record = Object.freeze({ ...held.record, date: held.last?.date ?? held.record.date })
+        this.tryBroadcast(record, repeats)
+        this._log(Object.freeze({ ...record, args: [...record.args, `(repeated ×${repeats})`] }), this._transportsFor(this.localConfig, record.level))
+    }
+
+    /** Output the held repeat count (dedup mode), then wait for the transports to handle everything written so far */
+    async flush(): Promise<void> {
+        this._flushRepeats()
+        await Promise.all(this.localConfig.transports.map(transport => transport.flush?.()))
+    }
 
-        // Complex path: mixed types
-        const out: string[] = []
-        args.forEach((arg, i) => {
-            const isFirst = i === 0, isLast = i === args.length - 1
-            if (typeof arg === 'string') {
-                const lines = arg.split('\n')
-                lines.forEach((l, j) => {
-                    const p = (isFirst && j === 0 && lines.length === 1 && args.length === 1) ? patterns.base
-                        : (isFirst && j === 0) ? patterns.mlstart
-                        : (isLast && j === lines.length - 1) ? patterns.mlend : patterns.mlstep
-                    out.push(p + l)
-                })
-            } else if (cfg.convertObjects) {
-                const inspected = util.inspect(arg, { colors: cfg.convertObjectsColorized, depth: cfg.convertObjectsDepth })
-                inspected.split('\n').forEach((l, j, arr) => {
-                    const p = (isFirst && j === 0) ? patterns.mlstart : (isLast && j === arr.length - 1) ? patterns.mlend : patterns.mlstep
-                    out.push(p + colors.Reset + l)
-                })
-            } else {
-                out.push((isFirst ? patterns.mlstart : isLast ? patterns.mlend : patterns.mlstep) + String(arg))
+    private _log(record: Types.Logger.TLogEntry, transports: Types.Logger.TTransport[]): void {
+        const cfg = this.localConfig
+        // The console transport writes with console.log, which may be captured (see captureConsole)
+        passThrough(() => {
+            for (const transport of transports) {
+                // A failing transport (or formatter) never reaches the caller nor stops the other transports
+                try {
+                    const lines = (transport.format ?? FORMATTERS[cfg.format] ?? FORMATTERS.pretty)(record, cfg, this._levels)
+                    transport.write(record, typeof lines === 'string' ? [lines] : lines)
+                } catch (err) {
+                    console.warn(`[LoggyLogger] Transport failed, record not written to it: ${err instanceof Error ? err.message : String(err)}`)
+                }
             }
         })
-        out.forEach(l => console.log(l))
     }
 
-    private tryBroadcast(type: LogType, args: unknown[], extraBoundDatas: Record<string, unknown> = {}) {
-        if (this._broadcast == undefined) return;
-        let date = new Date(), line = this._getCallLine()
-        this._broadcast(type, line, date, args, { ...this._boundDatas, ...extraBoundDatas })
+    private tryBroadcast(record: Types.Logger.TLogEntry, repeats?: number) {
+        if (!this._isBroadcasting()) return
+        const { type, callLine, date, args, boundDatas, template, properties, durationMs } = record
+        const meta: BroadcastMeta = {}
+        if (repeats) meta.repeats = repeats
+        if (template !== undefined) Object.assign(meta, { template, properties })
+        if (durationMs !== undefined) meta.durationMs = durationMs
+        if (Object.keys(meta).length) this._broadcast!(type, callLine, date, args, boundDatas, meta)
+        else this._broadcast!(type, callLine, date, args, boundDatas)
     }
 
     silly(...args: unknown[]) {
-        this.tryBroadcast('silly', args)
-        if (this.localConfig.level >= LEVELS['9_SILLY']) this._log('silly', args)
+        this._dispatch('silly', args)
     }
     verbose(...args: unknown[]) {
-        this.tryBroadcast('verbose', args)
-        if (this.localConfig.level >= LEVELS['8_VERBOSE']) this._log('verbose', args)
+        this._dispatch('verbose', args)
     }
     debug(...args: unknown[]) {
-        this.tryBroadcast('debug', args)
-        if (this.localConfig.level >= LEVELS['7_DEBUG']) this._log('debug', args)
+        this._dispatch('debug', args)
     }
     log(...args: unknown[]) {
-        this.tryBroadcast('log', args)
-        if (this.localConfig.level >= LEVELS['6_LOG']) this._log('log', args)
+        this._dispatch('log', args)
     }
     info(...args: unknown[]) {
-        this.tryBroadcast('info', args)
-        if (this.localConfig.level >= LEVELS['5_INFO']) this._log('info', args)
+        this._dispatch('info', args)
     }
     success(...args: unknown[]) {
-        this.tryBroadcast('success', args)
-        if (this.localConfig.level >= LEVELS['4_SUCCESS']) this._log('success', args)
+        this._dispatch('success', args)
     }
     warn(...args: unknown[]) {
-        this.tryBroadcast('warn', args)
-        if (this.localConfig.level >= LEVELS['3_WARN']) this._log('warn', args)
+        this._dispatch('warn', args)
     }
     error(...args: unknown[]) {
-        this.tryBroadcast('error', args)
-        if (this.localConfig.level >= LEVELS['2_ERROR']) this._log('error', args)
+        this._dispatch('error', args)
     }
     fatal(...args: unknown[]) {
-        this.tryBroadcast('fatal', args)
-        if (this.localConfig.level >= LEVELS['1_FATAL']) this._log('fatal', args)
+        this._dispatch('fatal', args)
+    }
+
+    // Log with any built-in or custom log type (see LoggyLogger.addLevels)
+    emit(type: LogType, ...args: unknown[]) {
+        this._dispatch(type, args)
     }
 
     // Internal methods for bound logging (with extra boundDatas)
     _sillyBound(extraBoundDatas: Record<string, unknown>, ...args: unknown[]) {
-        this.tryBroadcast('silly', args, extraBoundDatas)
-        if (this.localConfig.level >= LEVELS['9_SILLY']) this._log('silly', args)
+        this._dispatch('silly', args, extraBoundDatas)
     }
     _verboseBound(extraBoundDatas: Record<string, unknown>, ...args: unknown[]) {
-        this.tryBroadcast('verbose', args, extraBoundDatas)
-        if (this.localConfig.level >= LEVELS['8_VERBOSE']) this._log('verbose', args)
+        this._dispatch('verbose', args, extraBoundDatas)
     }
     _debugBound(extraBoundDatas: Record<string, unknown>, ...args: unknown[]) {
-        this.tryBroadcast('debug', args, extraBoundDatas)
-        if (this.localConfig.level >= LEVELS['7_DEBUG']) this._log('debug', args)
+        this._dispatch('debug', args, extraBoundDatas)
     }
     _logBound(extraBoundDatas: Record<string, unknown>, ...args: unknown[]) {
-        this.tryBroadcast('log', args, extraBoundDatas)
-        if (this.localConfig.level >= LEVELS['6_LOG']) this._log('log', args)
+        this._dispatch('log', args, extraBoundDatas)
     }
     _infoBound(extraBoundDatas: Record<string, unknown>, ...args: unknown[]) {
-        this.tryBroadcast('info', args, extraBoundDatas)
-        if (this.localConfig.level >= LEVELS['5_INFO']) this._log('info', args)
+        this._dispatch('info', args, extraBoundDatas)
     }
     _successBound(extraBoundDatas: Record<string, unknown>, ...args: unknown[]) {
-        this.tryBroadcast('success', args, extraBoundDatas)
-        if (this.localConfig.level >= LEVELS['4_SUCCESS']) this._log('success', args)
+        this._dispatch('success', args, extraBoundDatas)
     }
     _warnBound(extraBoundDatas: Record<string, unknown>, ...args: unknown[]) {
-        this.tryBroadcast('warn', args, extraBoundDatas)
-        if (this.localConfig.level >= LEVELS['3_WARN']) this._log('warn', args)
+        this._dispatch('warn', args, extraBoundDatas)
     }
     _errorBound(extraBoundDatas: Record<string, unknown>, ...args: unknown[]) {
-        this.tryBroadcast('error', args, extraBoundDatas)
-        if (this.localConfig.level >= LEVELS['2_ERROR']) this._log('error', args)
+        this._dispatch('error', args, extraBoundDatas)
     }
     _fatalBound(extraBoundDatas: Record<string, unknown>, ...args: unknown[]) {
-        this.tryBroadcast('fatal', args, extraBoundDatas)
-        if (this.localConfig.level >= LEVELS['1_FATAL']) this._log('fatal', args)
+        this._dispatch('fatal', args, extraBoundDatas)
+    }
+    // Log of a timer, with the measured duration on the record
+    _emitTimed(type: LogType, extraBoundDatas: Record<string, unknown>, durationMs: number, ...args: unknown[]) {
+        this._dispatch(type, args, extraBoundDatas, durationMs)
+    }
+    _emitBound(type: LogType, extraBoundDatas: Record<string, unknown>, ...args: unknown[]) {
+        this._dispatch(type, args, extraBoundDatas)
     }
 }
 
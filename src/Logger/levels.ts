@@ -1,4 +1,4 @@
-
+import * as Types from '../types/index.js'
 
 export const LEVELS = {
     "1_FATAL": 10,
@@ -12,3 +12,67 @@ export const LEVELS = {
     "9_SILLY": 90,
     "DEFAULT": 60
 }
+
+// Numeric level of each log type
+export const TYPE_LEVELS: Readonly<Record<Types.Logger.TLogType, number>> = {
+    fatal: LEVELS['1_FATAL'],
+    error: LEVELS['2_ERROR'],
+    warn: LEVELS['3_WARN'],
+    success: LEVELS['4_SUCCESS'],
+    info: LEVELS['5_INFO'],
+    log: LEVELS['6_LOG'],
+    debug: LEVELS['7_DEBUG'],
+    verbose: LEVELS['8_VERBOSE'],
+    silly: LEVELS['9_SILLY'],
+    unknown: LEVELS.DEFAULT
+}
+
+// Dashboard badge color matching each terminal color
+const BADGE_COLORS: Partial<Record<Types.Logger.ColorType, string>> = {
+    FgGray: '#888', FgBlack: '#666', FgRed: '#f44336', FgGreen: '#4caf50', FgYellow: '#ffa500',
+    FgBlue: '#4ec9b0', FgMagenta: '#c586c0', FgCyan: '#4fc1ff', FgWhite: '#d4d4d4'
+}
+// Names that would clash with the logger interface
+const RESERVED_NAMES = ['bind', 'child', 'time', 'timeEnd', 'startTimer', '_instance']
+
+/**
+ * Custom log level of a definition, with its defaults applied.
+ * Throws when the name is taken by a built-in level or the logger interface, or when the level is not a number.
+ */
+export function createLevel(name: string, def: Types.Logger.TLevelDefinition): Types.Logger.TCustomLevel {
+    if (Object.hasOwn(TYPE_LEVELS, name)) throw new Error(`[LoggyLogger] Cannot redefine built-in level "${name}"`)
+    if (RESERVED_NAMES.includes(name) || name in Object.prototype || !/^[A-Za-z_$][\w$]*$/.test(name)) throw new Error(`[LoggyLogger] Invalid level name "${name}"`)
+    if (typeof def.level !== 'number' || Number.isNaN(def.level)) throw new Error(`[LoggyLogger] Level "${name}" needs a numeric level`)
+
+    const fg = def.color ?? 'FgWhite'
+    const bg = fg.startsWith('Fg') ? fg.replace(/^Fg/, 'Bg') : 'BgGray'
+    const badge = def.badge ?? name[0].toUpperCase()
+    return {
+        name,
+        level: def.level,
+        emoji: def.emoji ?? '•',
+        pattern: def.pattern ?? [`{${fg}}`, `{date} {FgGray}{line}{Reset} {${bg}}{FgBlack} ${badge} {Reset}{${fg}}`, ''],
+        badgeColor: def.badgeColor ?? BADGE_COLORS[fg] ?? '#d4d4d4'
+    }
+}
+
+// Numeric level of a built-in or custom log type
+export function getTypeLevel(type: string, levels?: Types.Logger.TCustomLevels): number {
+    if (Object.hasOwn(TYPE_LEVELS, type)) return TYPE_LEVELS[type as Types.Logger.TLogType]
+    return levels?.get(type)?.level ?? LEVELS.DEFAULT
+}
+
+
+/**
+ * Parse a level given as a number ("70"), a log type name ("debug") or a LEVELS key ("7_DEBUG").
+ * Custom level names are looked up in levels. Returns undefined when the value is not a known level.
+ */
+export function parseLevel(value: string | number, levels?: Types.Logger.TCustomLevels): number | undefined {
+    if (typeof value === 'number') return Number.isFinite(value) ? value : undefined
+    const str = value.trim()
+    if (/^\d+$/.test(str)) return parseInt(str, 10)
+    const lower = str.toLowerCase()
+    if (Object.hasOwn(TYPE_LEVELS, lower) && lower !== 'unknown') return TYPE_LEVELS[lower as Types.Logger.TLogType]
+    if (Object.hasOwn(LEVELS, str.toUpperCase())) return LEVELS[str.toUpperCase() as keyof typeof LEVELS]
+    return levels?.get(str)?.level
+}
@@ -0,0 +1,50 @@
+import util from 'node:util'
+
+export interface FormattedMessage {
+    args: unknown[]
+    /** Message template with {name} placeholders, when the message was rendered from one */
+    template?: string
+    /** Values of the template placeholders */
+    properties?: Record<string, unknown>
+}
+
+const SPECIFIERS = /%[sdifjoOc%]/g
+const PLACEHOLDERS = /\{(\w+)\}/g
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+    if (typeof value !== 'object' || value === null) return false
+    const proto = Object.getPrototypeOf(value)
+    return proto === Object.prototype || proto === null
+}
+
+function renderValue(value: unknown): string {
+    return typeof value === 'string' ? value : util.inspect(value, { breakLength: Infinity })
+}
+
+/**
+ * Render a message template ("User {userId} logged in", { userId }) or printf-style format string ("%s did %d things").
+ * Returns undefined when the args are not a template nor a format string.
+ */
+export function formatMessage(args: unknown[]): FormattedMessage | undefined {
+    const [first, ...rest] = args
+    if (typeof first !== 'string' || rest.length === 0) return undefined
+
+    // Named template: the properties object follows the template
+    const properties = rest[0]
+    if (isPlainObject(properties) && first.includes('{')) {
+        let matched = false
+        const message = first.replace(PLACEHOLDERS, (placeholder, name: string) => {
+            if (!Object.hasOwn(properties, name)) return placeholder
+            matched = true
+            return renderValue(properties[name])
+        })
+        if (matched) return { args: [message, ...rest.slice(1)], template: first, properties }
+    }
+
+    // printf-style, like util.format, but args left over by the specifiers are kept as args
+    if (!first.includes('%')) return undefined
+    const consumed = Math.min((first.match(SPECIFIERS) ?? []).filter(s => s !== '%%').length, rest.length)
+    const message = consumed ? util.format(first, ...rest.slice(0, consumed)) : first.replace(/%%/g, '%')
+    if (message === first) return undefined
+    return { args: [message, ...rest.slice(consumed)] }
+}
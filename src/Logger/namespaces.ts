@@ -0,0 +1,49 @@
+import { LEVELS, parseLevel } from './levels.js'
+
+interface NamespaceRule {
+    regex: RegExp
+    exclude: boolean
+    level: number
+}
+
+// Parsed rules, by pattern list
+const rulesCache = new Map<string, NamespaceRule[]>()
+
+function globToRegExp(glob: string): RegExp {
+    return new RegExp('^' + glob.split('*').map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&')).join('.*') + '$')
+}
+
+/**
+ * Parse a DEBUG-style pattern list: comma or space separated globs, "-" prefixed globs being exclusions.
+ * A glob may end with "=<level>" to pick the level of matching loggers (default: silly).
+ */
+export function parseNamespaces(patterns: string): NamespaceRule[] {
+    const cached = rulesCache.get(patterns)
+    if (cached) return cached
+
+    const rules: NamespaceRule[] = []
+    for (const raw of patterns.split(/[\s,]+/)) {
+        if (!raw) continue
+        const exclude = raw.startsWith('-')
+        const [glob, levelStr] = (exclude ? raw.slice(1) : raw).split('=')
+        const level = levelStr !== undefined ? parseLevel(levelStr) : LEVELS['9_SILLY']
+        if (level === undefined) {
+            console.warn(`[LoggyLogger] Ignoring namespace pattern "${raw}": unknown level "${levelStr}"`)
+            continue
+        }
+        rules.push({ regex: globToRegExp(glob), exclude, level })
+    }
+    rulesCache.set(patterns, rules)
+    return rules
+}
+
+/**
+ * Level a namespace gets from the pattern list, or undefined when no pattern enables it.
+ * Exclusions win over inclusions, and the first matching inclusion gives the level.
+ */
+export function getNamespaceLevel(patterns: string, namespace: string): number | undefined {
+    if (!patterns || !namespace) return undefined
+    const rules = parseNamespaces(patterns)
+    if (rules.some(r => r.exclude && r.regex.test(namespace))) return undefined
+    return rules.find(r => !r.exclude && r.regex.test(namespace))?.level
+}
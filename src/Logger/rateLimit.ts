@@ -0,0 +1,61 @@
+import * as Types from '../types/index.js'
+
+type SummaryFn = (type: string, message: string) => void
+
+interface CallSiteState {
+    windowStart: number
+    count: number
+    suppressed: number
+    // Type and logger of the last suppressed log, used for the summary
+    type: string
+    summarize?: SummaryFn
+    timer?: NodeJS.Timeout
+}
+
+const DEFAULT_WINDOW_MS = 10_000
+
+// Call site states, by options object: loggers sharing a config share their limits
+const sitesCache = new WeakMap<Types.Logger.TRateLimitOptions, Map<string, CallSiteState>>()
+
+function flush(site: CallSiteState, callSite: string, windowMs: number) {
+    clearTimeout(site.timer)
+    site.timer = undefined
+    if (!site.suppressed) return
+    const count = site.suppressed.toLocaleString('en-US')
+    site.summarize?.(site.type, `suppressed ${count} similar messages from ${callSite || 'unknown call site'} in last ${windowMs / 1000}s`)
+    site.suppressed = 0
+}
+
+/**
+ * Whether a log from this call site goes through the per call site limit and the level sampling.
+ * When a window ends with suppressed logs, `summarize` is called once with a summary message.
+ */
+export function acceptLog(options: Types.Logger.TRateLimitOptions, type: string, callSite: string, summarize: SummaryFn): boolean {
+    let sites = sitesCache.get(options)
+    if (!sites) sitesCache.set(options, sites = new Map())
+
+    const now = Date.now(), windowMs = options.windowMs ?? DEFAULT_WINDOW_MS
+    let site = sites.get(callSite)
+    if (!site || now - site.windowStart >= windowMs) {
+        // The summary timer may not have fired yet
+        if (site) flush(site, callSite, windowMs)
+        site = { windowStart: now, count: 0, suppressed: 0, type }
+        sites.set(callSite, site)
+    }
+
+    const rate = options.sample?.[type]
+    const sampledOut = rate !== undefined && Math.random() >= rate
+    if (!sampledOut && (options.max === undefined || site.count < options.max)) {
+        site.count++
+        return true
+    }
+
+    site.type = type
+    site.summarize = summarize
+    if (site.suppressed++ === 0) {
+        const current = site
+        current.timer = setTimeout(() => flush(current, callSite, windowMs), current.windowStart + windowMs - now)
+        current.timer.unref()
+    }
+    return false
+}
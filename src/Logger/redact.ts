@@ -0,0 +1,130 @@
+import { createHash } from 'node:crypto'
+import * as Types from '../types/index.js'
+
+interface CompiledRedact {
+    keys: RegExp[]
+    paths: string[][]
+    patterns: RegExp[]
+    censor: Types.Logger.TRedactCensor
+    mask: string
+}
+
+/** Ready to use value patterns for the `redact.patterns` option */
+export const REDACT_PATTERNS = {
+    bearer: /\bBearer\s+[\w\-.~+/]+=*/gi,
+    creditCard: /\b(?:\d[ -]?){12,18}\d\b/g,
+} as const
+
+// Compiled options, by options object
+const compiledCache = new WeakMap<Types.Logger.TRedactOptions, CompiledRedact>()
+
+function compile(options: Types.Logger.TRedactOptions): CompiledRedact {
+    const cached = compiledCache.get(options)
+    if (cached) return cached
+
+    const compiled: CompiledRedact = {
+        keys: (options.keys ?? []).map(glob =>
+            new RegExp('^' + glob.split('*').map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&')).join('.*') + '$', 'i')),
+        paths: (options.paths ?? []).map(path => path.split('.')),
+        // Patterns are always applied globally, every match of a string gets censored
+        patterns: (options.patterns ?? []).map(p =>
+            typeof p === 'string' ? new RegExp(p, 'g') : p.global ? p : new RegExp(p.source, p.flags + 'g')),
+        censor: options.censor ?? 'mask',
+        mask: options.mask ?? '[REDACTED]',
+    }
+    compiledCache.set(options, compiled)
+    return compiled
+}
+
+function hash(value: unknown): string {
+    let str: string
+    try { str = typeof value === 'string' ? value : JSON.stringify(value) ?? String(value) }
+    catch { str = String(value) }
+    return `[sha256:${createHash('sha256').update(str).digest('hex').slice(0, 16)}]`
+}
+
+function censorString(str: string, c: CompiledRedact): string {
+    for (const pattern of c.patterns) {
+        str = str.replace(pattern, match => c.censor === 'hash' ? hash(match) : c.censor === 'remove' ? '' : c.mask)
+    }
+    return str
+}
+
+function matchesPath(path: string[], c: CompiledRedact): boolean {
+    return c.paths.some(p => p.length === path.length && p.every((segment, i) => segment === '*' || segment === path[i]))
+}
+
+function isSensitive(key: string, path: string[], c: CompiledRedact): boolean {
+    return c.keys.some(re => re.test(key)) || matchesPath(path, c)
+}
+
+// Arrays, plain objects, class instances, errors, Maps and Sets are walked. Dates, Buffers... are kept as is.
+function isWalkable(value: object): boolean {
+    return Array.isArray(value) || value instanceof Error || value instanceof Map || value instanceof Set || Object.prototype.toString.call(value) === '[object Object]'
+}
+
+function walk(value: unknown, path: string[], c: CompiledRedact, seen: WeakMap<object, unknown>): unknown {
+    if (typeof value === 'string') return c.patterns.length ? censorString(value, c) : value
+    if (value === null || typeof value !== 'object' || !isWalkable(value)) return value
+    if (seen.has(value)) return seen.get(value)
+
+    if (value instanceof Map) {
+        const copy = new Map<unknown, unknown>()
+        seen.set(value, copy)
+        // String keys are matched like object keys
+        for (const [key, v] of value) {
+            const childPath = [...path, String(key)]
+            if (typeof key !== 'string' || !isSensitive(key, childPath, c)) copy.set(walk(key, childPath, c, seen), walk(v, childPath, c, seen))
+            else if (c.censor === 'hash') copy.set(key, hash(v))
+            else if (c.censor === 'mask') copy.set(key, c.mask)
+        }
+        return copy
+    }
+    if (value instanceof Set) {
+        const copy = new Set<unknown>()
+        seen.set(value, copy)
+        // Items are matched by path like array items
+        let index = 0
+        for (const v of value) copy.add(walk(v, [...path, String(index++)], c, seen))
+        return copy
+    }
+
+    const isArray = Array.isArray(value)
+    const copy: Record<string, unknown> = isArray ? [] as unknown as Record<string, unknown> : Object.create(Object.getPrototypeOf(value))
+    seen.set(value, copy)
+
+    if (value instanceof Error) {
+        // message and stack are not enumerable, copy them the same way
+        for (const key of ['name', 'message', 'stack', 'cause'] as const) {
+            if (!Object.hasOwn(value, key)) continue
+            Object.defineProperty(copy, key, { value: walk(value[key], [...path, key], c, seen), writable: true, configurable: true, enumerable: false })
+        }
+    }
+
+    for (const [key, v] of Object.entries(value)) {
+        const childPath = [...path, key]
+        if (!isSensitive(key, childPath, c)) {
+            copy[key] = walk(v, childPath, c, seen)
+        } else if (c.censor === 'hash') {
+            copy[key] = hash(v)
+        } else if (c.censor === 'mask') {
+            copy[key] = c.mask
+        } else if (isArray) {
+            // Removing array items would shift the following indexes
+            copy[key] = undefined
+        }
+    }
+    return copy
+}
+
+/**
+ * Redacted copies of the args and bound datas of a log record. The originals are never mutated.
+ * Paths are resolved from the root of each argument and from the root of the bound datas.
+ */
+export function redactRecord(options: Types.Logger.TRedactOptions, args: unknown[], boundDatas: Record<string, unknown>) {
+    const c = compile(options), seen = new WeakMap<object, unknown>()
+    return {
+        args: args.map(arg => walk(arg, [], c, seen)),
+        boundDatas: walk(boundDatas, [], c, seen) as Record<string, unknown>,
+    }
+}
@@ -0,0 +1,36 @@
+import * as Types from '../types/index.js'
+
+type Transport = Types.Logger.TTransport
+type TransportOptions = Types.Logger.TTransportOptions
+type LogEntry = Types.Logger.TLogEntry
+
+/**
+ * Writes each formatted line with console.log.
+ * This is the default transport when none is configured.
+ */
+export function consoleTransport(options: TransportOptions = {}): Transport {
+    return {
+        ...options,
+        write: (_entry, lines) => lines.forEach(l => console.log(l))
+    }
+}
+
+/**
+ * Writes formatted lines to a writable stream (process.stdout, fs.createWriteStream(), a socket...).
+ */
+export function streamTransport(stream: NodeJS.WritableStream, options: TransportOptions = {}): Transport {
+    return {
+        ...options,
+        write: (_entry, lines) => { stream.write(lines.join('\n') + '\n') }
+    }
+}
+
+/**
+ * Hands every entry to a custom function, along with its formatted lines.
+ */
+export function functionTransport(fn: (entry: LogEntry, lines: string[]) => void, options: TransportOptions = {}): Transport {
+    return {
+        ...options,
+        write: fn
+    }
+}
@@ -1,26 +1,111 @@
+import * as Types from '../types/index.js'
+import { serializeError } from '../Logger/errors.js'
+
+export const DEFAULT_SERIALIZE_OPTIONS: Readonly<Required<Types.Logger.TSerializeOptions>> = {
+    maxDepth: 10,
+    maxEntries: 100,
+    maxStringLength: 10_000,
+}
+
+type TypedArray = Exclude<NodeJS.TypedArray, Buffer>
+
+/**
+ * JSON with tagged values: `{ _type, _value, ... }` objects stand for what JSON cannot represent
+ * (bigints, Maps, Sets, Dates, Buffers, typed arrays, symbols, undefined, circular references...).
+ */
 export class JSONBigInt {
-    private static _replacer = (_key: string, value: any): any => {
-        if (typeof value === 'bigint') {
-            return {
-                _type: 'bigint',
-                _value: value.toString(),
-            };
+    private static _reviver = (_key: string, value: any): any => {
+        if (!value || typeof value._type !== 'string') return value
+        switch (value._type) {
+            case 'bigint': return BigInt(value._value)
+            case 'number': return Number(value._value)
+            case 'undefined': return undefined
+            case 'symbol': return Symbol(value._value)
+            case 'date': return new Date(value._value)
+            // Truncated collections end with a { _type: 'more' } marker
+            case 'map': return new Map(value._value.filter(Array.isArray))
+            case 'set': return new Set(value._value)
+            case 'buffer': return Buffer.from(value._value)
+            case 'typedarray': {
+                const TypedArrayClass = (globalThis as Record<string, any>)[value._class]
+                return typeof TypedArrayClass === 'function' ? TypedArrayClass.from(value._value, (v: unknown) => value._class.startsWith('Big') ? BigInt(v as string) : v) : value
+            }
+            // Circular references, truncated values, class instances, functions and errors stay tagged
+            default: return value
         }
-        return value;
-    };
+    }
 
-    private static _reviver = (_key: string, value: any): any => {
-        if (value && value._type === 'bigint') {
-            return BigInt(value._value);
+    private static _encode(value: unknown, options: Required<Types.Logger.TSerializeOptions>, depth: number, ancestors: Set<object>): unknown {
+        switch (typeof value) {
+            case 'string':
+                return value.length > options.maxStringLength
+                    ? `${value.slice(0, options.maxStringLength)}… (${value.length - options.maxStringLength} more characters)`
+                    : value
+            case 'number': return Number.isFinite(value) ? value : { _type: 'number', _value: String(value) }
+            case 'bigint': return { _type: 'bigint', _value: value.toString() }
+            case 'undefined': return { _type: 'undefined' }
+            case 'symbol': return { _type: 'symbol', _value: value.description ?? '' }
+            case 'function': return { _type: 'function', _value: value.name }
+            case 'boolean': return value
+        }
+        if (value === null) return null
+        const obj = value as object
+
+        if (ancestors.has(obj)) return { _type: 'circular' }
+        if (obj instanceof Date) return { _type: 'date', _value: Number.isNaN(obj.getTime()) ? 'Invalid Date' : obj.toISOString() }
+
+        const className = obj.constructor?.name ?? 'Object'
+        if (depth >= options.maxDepth) {
+            const size = obj instanceof Map || obj instanceof Set ? obj.size : Array.isArray(obj) || ArrayBuffer.isView(obj) ? (obj as ArrayLike<unknown>).length : Object.keys(obj).length
+            return { _type: 'truncated', _class: Array.isArray(obj) ? 'Array' : className, _size: size }
         }
-        return value;
-    };
+
+        ancestors.add(obj)
+        try {
+            const encode = (v: unknown) => JSONBigInt._encode(v, options, depth + 1, ancestors)
+            // First maxEntries items, followed by a marker with the number of items left out
+            const entries = <T>(items: T[], size: number, map: (item: T) => unknown) => {
+                const out = items.slice(0, options.maxEntries).map(map)
+                if (size > options.maxEntries) out.push({ _type: 'more', _size: size - options.maxEntries })
+                return out
+            }
+
+            if (obj instanceof Error) return encode(serializeError(obj, true))
+            if (obj instanceof Map) return { _type: 'map', _size: obj.size, _value: entries([...obj], obj.size, ([k, v]) => [encode(k), encode(v)]) }
+            if (obj instanceof Set) return { _type: 'set', _size: obj.size, _value: entries([...obj], obj.size, encode) }
+            if (Buffer.isBuffer(obj)) return { _type: 'buffer', _size: obj.length, _value: [...obj.subarray(0, options.maxEntries)] }
+            if (ArrayBuffer.isView(obj) && !(obj instanceof DataView)) {
+                const typed = obj as TypedArray
+                const values = [...typed.subarray(0, options.maxEntries)].map(v => typeof v === 'bigint' ? v.toString() : v)
+                return { _type: 'typedarray', _class: className, _size: typed.length, _value: values }
+            }
+            if (Array.isArray(obj)) return entries(obj, obj.length, encode)
+            // Objects knowing their JSON form (URL, Decimal...)
+            if (typeof (obj as { toJSON?: unknown }).toJSON === 'function') return encode((obj as { toJSON: () => unknown }).toJSON())
+
+            const keys = Object.keys(obj)
+            const encoded: Record<string, unknown> = {}
+            for (const key of keys.slice(0, options.maxEntries)) encoded[key] = encode((obj as Record<string, unknown>)[key])
+            if (keys.length > options.maxEntries) encoded['…'] = { _type: 'more', _size: keys.length - options.maxEntries }
+
+            const proto = Object.getPrototypeOf(obj)
+            const isPlain = proto === null || proto === Object.prototype
+            return isPlain ? encoded : { _type: 'instance', _class: className, _value: encoded }
+        } finally {
+            ancestors.delete(obj)
+        }
+    }
+
+    /** JSON-safe copy of any value, with tagged values and the depth and size limits applied */
+    public static encode(value: unknown, options: Types.Logger.TSerializeOptions = {}): unknown {
+        return JSONBigInt._encode(value, { ...DEFAULT_SERIALIZE_OPTIONS, ...options }, 0, new Set())
+    }
 
     public static parse(json: string): any {
         return JSON.parse(json, JSONBigInt._reviver);
     }
 
-    public static stringify(json: any): string {
-        return JSON.stringify(json, JSONBigInt._replacer);
+    public static stringify(json: any, options?: Types.Logger.TSerializeOptions): string {
+        return JSON.stringify(JSONBigInt.encode(json, options));
     }
 }
@@ -0,0 +1,70 @@
+import * as Types from '../types/index.js'
+import { parseLevel } from '../Logger/levels.js'
+
+export interface EnvOptions {
+    config: Types.Logger.TLoggyConfigOptional
+    production?: boolean
+    serverPort?: number
+}
+
+const FORMATS: Types.Logger.TLogFormat[] = ['pretty', 'json', 'logfmt']
+
+function warnInvalid(name: string, value: string, expected: string) {
+    console.warn(`[LoggyLogger] Ignoring ${name}="${value}": expected ${expected}`)
+}
+
+function parseBoolean(name: string, value: string): boolean | undefined {
+    const v = value.trim().toLowerCase()
+    if (['1', 'true', 'yes', 'on'].includes(v)) return true
+    if (['0', 'false', 'no', 'off'].includes(v)) return false
+    warnInvalid(name, value, 'a boolean (true/false, 1/0, yes/no, on/off)')
+    return undefined
+}
+
+/**
+ * Read LoggyLogger options from environment variables.
+ * Empty or unset variables are skipped, invalid values are skipped with a warning.
+ *
+ * - LOGGY_LEVEL: level name (debug, 7_DEBUG, a custom level of levels) or number (70)
+ * - LOGGY_COLORS: boolean
+ * - LOGGY_FORMAT: pretty, json or logfmt
+ * - LOGGY_DEBUG: namespace patterns (see namespaces)
+ * - LOGGY_PRODUCTION: boolean
+ * - LOGGY_DASHBOARD_PORT: port number
+ */
+export function readEnvOptions(env: NodeJS.ProcessEnv = process.env, levels?: Types.Logger.TCustomLevels): EnvOptions {
+    const options: EnvOptions = { config: {} }
+
+    if (env.LOGGY_LEVEL) {
+        const level = parseLevel(env.LOGGY_LEVEL, levels)
+        if (level === undefined) warnInvalid('LOGGY_LEVEL', env.LOGGY_LEVEL, 'a level name (fatal, error, warn, success, info, log, debug, verbose, silly) or a number')
+        else options.config.level = level
+    }
+
+    if (env.LOGGY_COLORS) {
+        const colors = parseBoolean('LOGGY_COLORS', env.LOGGY_COLORS)
+        if (colors !== undefined) options.config.colors = colors
+    }
+
+    if (env.LOGGY_FORMAT) {
+        const format = env.LOGGY_FORMAT.trim().toLowerCase() as Types.Logger.TLogFormat
+        if (!FORMATS.includes(format)) warnInvalid('LOGGY_FORMAT', env.LOGGY_FORMAT, FORMATS.join(', '))
+        else options.config.format = format
+    }
+
+    if (env.LOGGY_DEBUG) {
+        options.config.namespaces = env.LOGGY_DEBUG
+    }
+
+    if (env.LOGGY_PRODUCTION) {
+        options.production = parseBoolean('LOGGY_PRODUCTION', env.LOGGY_PRODUCTION)
+    }
+
+    if (env.LOGGY_DASHBOARD_PORT) {
+        const port = Number(env.LOGGY_DASHBOARD_PORT.trim())
+        if (!Number.isInteger(port) || port < 0 || port > 65535) warnInvalid('LOGGY_DASHBOARD_PORT', env.LOGGY_DASHBOARD_PORT, 'a port number between 0 and 65535')
+        else options.serverPort = port
+    }
+
+    return options
+}
@@ -0,0 +1,81 @@
+import fs from 'node:fs'
+import path from 'node:path'
+import { SourceMap } from 'node:module'
+import { fileURLToPath } from 'node:url'
+
+interface LoadedSourceMap {
+    map: SourceMap
+    // Directory sources are relative to, sourceRoot included
+    sourceDir: string
+}
+
+export interface SourcePosition {
+    filePath: string
+    lineNumber: number
+    column?: number
+}
+
+// Source maps by generated file path, null when the file has none (or it could not be read)
+const sourceMapsCache = new Map<string, LoadedSourceMap | null>()
+
+// Last "//# sourceMappingURL=" comment of a generated file
+const MAPPING_URL = /\/\/[#@]\s*sourceMappingURL=(\S+)\s*$/gm
+
+function readSourceMap(filePath: string): LoadedSourceMap | null {
+    let code: string
+    try { code = fs.readFileSync(filePath, 'utf8') } catch { return null }
+
+    const url = [...code.matchAll(MAPPING_URL)].pop()?.[1]
+    let json: string, mapPath = `${filePath}.map`
+    try {
+        if (url?.startsWith('data:')) {
+            // data:application/json;charset=utf-8;base64,<payload>
+            const [header, payload = ''] = url.slice(5).split(',', 2)
+            json = header.endsWith(';base64') ? Buffer.from(payload, 'base64').toString('utf8') : decodeURIComponent(payload)
+            mapPath = filePath
+        } else {
+            // No comment: a .map file next to the generated file
+            if (url) mapPath = url.startsWith('file:') ? fileURLToPath(url) : path.resolve(path.dirname(filePath), decodeURIComponent(url))
+            json = fs.readFileSync(mapPath, 'utf8')
+        }
+        const payload = JSON.parse(json)
+        return { map: new SourceMap(payload), sourceDir: path.resolve(path.dirname(mapPath), payload.sourceRoot ?? '') }
+    } catch {
+        return null
+    }
+}
+
+function resolveSource(source: string, sourceDir: string): string {
+    if (source.startsWith('file:')) return fileURLToPath(source)
+    // Bundler schemes (webpack://...) cannot be resolved to a file, keep them as is
+    if (/^[a-z][\w+.-]*:\/\//i.test(source)) return source
+    return path.resolve(sourceDir, source)
+}
+
+/**
+ * Original position of a generated file position, from the inline source map of the file or its .map file.
+ * Lines and columns are 1-based, as in stack traces. Returns null when the position is not mapped.
+ * Source maps are read once per file and cached, files without one included.
+ */
+export function resolveSourcePosition(filePath: string, lineNumber: number, column = 1): SourcePosition | null {
+    let loaded = sourceMapsCache.get(filePath)
+    if (loaded === undefined) {
+        loaded = readSourceMap(filePath)
+        sourceMapsCache.set(filePath, loaded)
+    }
+    if (!loaded) return null
+
+    const entry = loaded.map.findEntry(lineNumber - 1, Math.max(column - 1, 0)) as Partial<{ generatedLine: number; originalSource: string; originalLine: number; originalColumn: number }>
+    // findEntry falls back to the closest previous mapping, which may belong to another line
+    if (entry.originalSource === undefined || entry.originalLine === undefined || entry.generatedLine !== lineNumber - 1) return null
+    return {
+        filePath: resolveSource(entry.originalSource, loaded.sourceDir).replace(/\\/g, '/'),
+        lineNumber: entry.originalLine + 1,
+        column: entry.originalColumn !== undefined ? entry.originalColumn + 1 : undefined,
+    }
+}
+
+/** Forget the cached source maps, e.g. after a rebuild */
+export function clearSourceMapCache() {
+    sourceMapsCache.clear()
+}
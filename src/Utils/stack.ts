@@ -0,0 +1,112 @@
+import path from 'node:path'
+import { resolveSourcePosition } from './sourceMaps.js'
+
+function toPosition(filePath: string, line: string, column: string | undefined) {
+    return { filePath: filePath.replace(/\\/g, '/'), lineNumber: parseInt(line, 10), column: column ? parseInt(column, 10) : undefined }
+}
+
+/**
+ * Parse a stack trace line and extract file path, line number and column.
+ * Handles various stack trace formats from different environments.
+ * Example output: "myproject/hi.js:5" or "C:/projects/myproject/hi.js:5"
+ */
+export function parseStackLine(stackLine: string): { filePath: string; lineNumber: number; column?: number } | null {
+    if (!stackLine) return null
+
+    // Handle various stack trace formats:
+    // V8/Node: "    at functionName (file:///path/to/file.js:10:15)" or "    at file:///path/to/file.js:10:15"
+    // V8/Node: "    at functionName (/path/to/file.js:10:15)" or "    at /path/to/file.js:10:15"
+    // Windows: "    at functionName (C:\path\to\file.js:10:15)"
+
+    let match: RegExpMatchArray | null = null
+
+    // Try file:// URL format first (ESM modules)
+    match = stackLine.match(/file:\/\/(\/?[A-Za-z]:[^:]+|[^:]+):(\d+)(?::(\d+))?/)
+    if (match) {
+        // file:///home/me/a.js -> /home/me/a.js, file:///C:/a.js -> C:/a.js
+        return toPosition(match[1].replace(/^\/([A-Za-z]:)/, '$1'), match[2], match[3])
+    }
+
+    // Try Windows path format (C:\path\to\file.js:10:15)
+    match = stackLine.match(/([A-Za-z]:[\\/][^:]+):(\d+)(?::(\d+))?/)
+    if (match) {
+        return toPosition(match[1], match[2], match[3])
+    }
+
+    // Try Unix path format (/path/to/file.js:10:15)
+    match = stackLine.match(/\(([^()]+?):(\d+)(?::(\d+))?\)/)
+    if (match) {
+        return toPosition(match[1], match[2], match[3])
+    }
+
+    // Try bare path format without parentheses
+    match = stackLine.match(/at\s+([^:]+):(\d+)(?::(\d+))?/)
+    if (match) {
+        return toPosition(match[1].trim(), match[2], match[3])
+    }
+
+    return null
+}
+
+/**
+ * Apply base path transformation to a file path.
+ * Removes the base path prefix and replaces it with "./"
+ * Works cross-platform using node:path for normalization.
+ */
+export function applyBasePath(filePath: string, basePath: string | undefined): string {
+    if (!basePath) return filePath
+
+    // Normalize both paths for cross-platform comparison
+    const normalizedFilePath = path.normalize(filePath).replace(/\\/g, '/')
+    const normalizedBasePath = path.normalize(basePath).replace(/\\/g, '/')
+
+    // Ensure basePath ends without a trailing slash for consistent comparison
+    const basePathClean = normalizedBasePath.endsWith('/')
+        ? normalizedBasePath.slice(0, -1)
+        : normalizedBasePath
+
+    // Check if the file path starts with the base path
+    if (normalizedFilePath.startsWith(basePathClean + '/')) {
+        return './' + normalizedFilePath.slice(basePathClean.length + 1)
+    }
+
+    // Also handle case where paths match exactly (shouldn't happen with files, but be safe)
+    if (normalizedFilePath === basePathClean) {
+        return '.'
+    }
+
+    return filePath
+}
+
+/**
+ * Find the external caller from a stack trace.
+ * Skips internal module frames and returns the first external caller's location.
+ * Works both when running from source and when installed as an NPM package.
+ * sourceMaps: report the original location (./src/app.ts:42) of compiled or bundled code.
+ */
+export function findExternalCaller(stack: string[], skipFrames: number, modulePatterns: string[], basePath?: string, sourceMaps = false): string {
+    for (let i = skipFrames; i < stack.length; i++) {
+        const line = stack[i]
+
+        // Skip internal Node.js modules (built-in modules)
+        if (line.includes('node:')) continue
+
+        // Skip frames that match any of the module patterns (internal logger files)
+        // This includes node_modules/loggylogger patterns which are handled by modulePatterns
+        const isInternalFrame = modulePatterns.some(pattern => line.includes(pattern))
+        if (isInternalFrame) continue
+
+        // Skip other node_modules (not the loggylogger package itself, which is handled above)
+        // We want to find the actual user code that called the logger
+        if (line.includes('node_modules') && !modulePatterns.some(p => p.includes('node_modules'))) continue
+
+        // Parse the stack line
+        const parsed = parseStackLine(line)
+        if (parsed) {
+            const position = (sourceMaps && resolveSourcePosition(parsed.filePath, parsed.lineNumber, parsed.column)) || parsed
+            const transformedPath = applyBasePath(position.filePath, basePath)
+            return `${transformedPath}:${position.lineNumber}`
+        }
+    }
+    return ''
+}
@@ -0,0 +1,9 @@
+/** Milliseconds elapsed since a process.hrtime.bigint() start, rounded to the microsecond */
+export function elapsedMs(start: bigint): number {
+    return Math.round(Number(process.hrtime.bigint() - start) / 1000) / 1000
+}
+
+/** Human readable duration: "842.31ms", "12.41s" */
+export function formatDuration(ms: number): string {
+    return ms < 1000 ? `${ms.toFixed(2)}ms` : `${(ms / 1000).toFixed(2)}s`
+}
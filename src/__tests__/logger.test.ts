@@ -1,11 +1,21 @@
-import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import { describe, it, expect, beforeEach, afterEach, onTestFinished, vi } from 'vitest'
 import { Logger as LoggerClass } from '../Logger/index.js'
-import { LoggyLogger, Loggy, applyBasePath } from '../index.js'
+import { LoggyLogger, Loggy, applyBasePath, consoleTransport, streamTransport, functionTransport, fileTransport, REDACT_PATTERNS, serializeError } from '../index.js'
 import { LEVELS } from '../Logger/levels.js'
 import { colors } from '../Logger/colors.js'
 import { emojis } from '../Logger/emojis.js'
 import { JSONBigInt } from '../Utils/JSONBigInt.js'
+import { clearSourceMapCache } from '../Utils/sourceMaps.js'
 import path from 'path'
+import util from 'node:util'
+import { PassThrough } from 'node:stream'
+import fs from 'node:fs'
+import os from 'node:os'
+import zlib from 'node:zlib'
+import { createRequire } from 'node:module'
+import http from 'node:http'
+import { EventEmitter } from 'node:events'
+import { WebSocket } from 'ws'
 
 // Mock console.log for all tests
 let consoleOutput: string[]
@@ -23,6 +33,18 @@ function restoreConsole() {
     console.log = originalConsoleLog
 }
 
+// Starts the instance's dashboard on a free port and spies on what it broadcasts; stopped when the test ends
+async function spyOnDashboard(loggy: Pick<LoggyLogger, 'startDashboard' | 'getDashboardServer' | 'stopDashboard'>) {
+    const warn = console.warn
+    console.warn = () => {}
+    loggy.startDashboard(0)
+    const dashboard = loggy.getDashboardServer()!
+    onTestFinished(() => loggy.stopDashboard())
+    await new Promise(resolve => dashboard.server.once('listening', resolve))
+    console.warn = warn
+    return vi.spyOn(dashboard, 'broadcast')
+}
+
 // ============================================================================
 // LEVELS
 // ============================================================================
@@ -120,6 +142,71 @@ describe('JSONBigInt', () => {
         const parsed = JSONBigInt.parse(json)
         expect(parsed.nested.big).toBe(BigInt(999))
     })
+
+    it('should tag circular references', () => {
+        const obj: Record<string, unknown> = { name: 'loop' }
+        obj.self = obj
+        obj.list = [obj]
+        expect(JSONBigInt.encode(obj)).toEqual({ name: 'loop', self: { _type: 'circular' }, list: [{ _type: 'circular' }] })
+    })
+
+    it('should round trip Maps, Sets, Dates, Buffers, typed arrays, symbols and special numbers', () => {
+        const date = new Date('2024-01-01T00:00:00.000Z')
+        const data = {
+            map: new Map<unknown, unknown>([['a', 1], [2, new Set([3n])]]),
+            date, buffer: Buffer.from([1, 2, 255]), floats: new Float32Array([1.5, 2]), bigs: new BigInt64Array([5n]),
+            symbol: Symbol('id'), nan: NaN, inf: -Infinity, nested: [undefined]
+        }
+        const parsed = JSONBigInt.parse(JSONBigInt.stringify(data))
+        expect(parsed.map).toEqual(new Map<unknown, unknown>([['a', 1], [2, new Set([3n])]]))
+        expect(parsed.date).toEqual(date)
+        expect(parsed.buffer).toEqual(Buffer.from([1, 2, 255]))
+        expect(parsed.floats).toEqual(new Float32Array([1.5, 2]))
+        expect(parsed.bigs).toEqual(new BigInt64Array([5n]))
+        expect(parsed.symbol.description).toBe('id')
+        expect(parsed.nan).toBeNaN()
+        expect(parsed.inf).toBe(-Infinity)
+        expect(parsed.nested).toHaveLength(1)
+        expect(parsed.nested[0]).toBeUndefined()
+    })
+
+    it('should tag class instances, functions and errors', () => {
+        class Point { constructor(public x: number) {} }
+        expect(JSONBigInt.encode([new Point(1), function named() {}, new Error('boom')])).toEqual([
+            { _type: 'instance', _class: 'Point', _value: { x: 1 } },
+            { _type: 'function', _value: 'named' },
+            expect.objectContaining({ _type: 'error', name: 'Error', message: 'boom' })
+        ])
+    })
+
+    it('should apply depth and size limits', () => {
+        const limits = { maxDepth: 2, maxEntries: 2, maxStringLength: 3 }
+        expect(JSONBigInt.encode({ a: { b: { c: 1 } } }, limits)).toEqual({ a: { b: { _type: 'truncated', _class: 'Object', _size: 1 } } })
+        expect(JSONBigInt.encode([1, 2, 3, 4], limits)).toEqual([1, 2, { _type: 'more', _size: 2 }])
+        expect(JSONBigInt.encode(new Set([1, 2, 3]), limits)).toEqual({ _type: 'set', _size: 3, _value: [1, 2, { _type: 'more', _size: 1 }] })
+        expect(JSONBigInt.encode({ a: 1, b: 2, c: 3 }, limits)).toEqual({ a: 1, b: 2, '…': { _type: 'more', _size: 1 } })
+        expect(JSONBigInt.encode('abcdef', limits)).toBe('abc… (3 more characters)')
+    })
+
+    it('should never throw when broadcasting circular objects to the dashboard', async () => {
+        const warn = vi.spyOn(console, 'warn').mockImplementation(() => {})
+        const loggy = new LoggyLogger()
+        loggy.startDashboard(0)
+        const server = loggy.getDashboardServer()!.server
+        await new Promise(resolve => server.once('listening', resolve))
+        const ws = new WebSocket(`ws://127.0.0.1:${loggy.getDashboardPort()}`)
+        await new Promise(resolve => ws.once('open', resolve))
+
+        const received = new Promise<any>(resolve => ws.once('message', data => resolve(JSON.parse(data.toString()))))
+        const obj: Record<string, unknown> = { map: new Map([['k', 1]]) }
+        obj.self = obj
+        expect(() => loggy.createLogger({ transports: [] }).info(obj)).not.toThrow()
+        expect((await received).argList[0]).toEqual({ map: { _type: 'map', _size: 1, _value: [['k', 1]] }, self: { _type: 'circular' } })
+
+        ws.close()
+        loggy.stopDashboard()
+        warn.mockRestore()
+    })
 })
 
 // ============================================================================
@@ -1252,6 +1339,39 @@ describe('LoggyLogger', () => {
             bound.info('should not log')
             expect(console.log).not.toHaveBeenCalled()
         })
+
+        it('should switch existing loggers and bound interfaces at runtime', () => {
+            const sink = vi.fn()
+            const loggy = new LoggyLogger({ config: { level: LEVELS['5_INFO'], transports: [functionTransport(sink)] } })
+            const logger = loggy.createLogger()
+            const bound = logger.bind({ requestId: 'r1' })
+            const info = logger.info
+
+            loggy.enableProduction({ logs: { warn: true } })
+            logger.info('dropped')
+            bound.info('dropped')
+            bound.warn('kept')
+            expect(logger.info).not.toBe(info)
+
+            loggy.disableProduction()
+            logger.info('back')
+            bound.info('back')
+            expect(logger.info).toBe(info)
+            expect(sink.mock.calls.map(c => c[0].args[0])).toEqual(['kept', 'back', 'back'])
+        })
+
+        it('should restore the settings changed by production mode', () => {
+            const loggy = new LoggyLogger({ config: { colors: true, convertObjects: true, showCallLines: true, basePath: '/project' } })
+            const logger = loggy.createLogger()
+            loggy.enableProduction({ settings: { basePath: '/prod' } })
+            loggy.enableProduction({ logs: { info: true } })
+            expect(logger._instance.localConfig).toMatchObject({ colors: false, convertObjects: false, showCallLines: false })
+            expect(loggy.getBasePath()).toBe(path.resolve('/prod'))
+
+            loggy.disableProduction()
+            expect(logger._instance.localConfig).toMatchObject({ colors: true, convertObjects: true, showCallLines: true })
+            expect(loggy.getBasePath()).toBe(path.resolve('/project'))
+        })
     })
 
     describe('basePath', () => {
@@ -1283,13 +1403,18 @@ describe('LoggyLogger', () => {
 // DEFAULT INSTANCE (Loggy)
 // ============================================================================
 describe('Loggy (default instance)', () => {
+    let previousConfig: ReturnType<typeof LoggerClass.conf.get>
+
     beforeEach(() => {
         setupConsoleMock()
         vi.resetModules()
+        previousConfig = { ...LoggerClass.conf.get() }
     })
 
     afterEach(() => {
         restoreConsole()
+        // The default instance shares its config with the other tests
+        LoggerClass.conf.set(previousConfig)
     })
 
     it('should be a LoggyLogger instance', () => {
@@ -1369,8 +1494,10 @@ describe('Loggy (default instance)', () => {
             }
         })
         expect(Loggy.isProduction()).toBe(true)
+        expect(Loggy.getConfig().colors).toBe(false)
         Loggy.disableProduction()
         expect(Loggy.isProduction()).toBe(false)
+        expect(Loggy.getConfig().colors).toBe(previousConfig.colors)
     })
 })
 
@@ -1463,4 +1590,1750 @@ describe('Dashboard', () => {
         loggy2.disableProduction()
     })
 
-})
\ No newline at end of file
+})
+
+// ============================================================================
+// TRANSPORTS
+// ============================================================================
+describe('Transports', () => {
+    beforeEach(() => {
+        setupConsoleMock()
+    })
+
+    afterEach(() => {
+        restoreConsole()
+    })
+
+    it('should write to console by default', () => {
+        const logger = Loggy.createLogger({ level: LEVELS['5_INFO'] })
+        logger.info('default transport')
+        expect(consoleOutput[0]).toContain('default transport')
+    })
+
+    it('should send the same entry to every transport', () => {
+        const stream = new PassThrough()
+        const chunks: string[] = []
+        stream.on('data', c => chunks.push(c.toString()))
+        const sink = vi.fn()
+
+        const logger = Loggy.createLogger({
+            level: LEVELS['5_INFO'],
+            colors: false,
+            transports: [consoleTransport(), streamTransport(stream), functionTransport(sink)]
+        }, { service: 'api' })
+        logger.bind({ requestId: 'r1' }).info('fan out')
+
+        expect(consoleOutput).toHaveLength(1)
+        expect(chunks.join('')).toContain('fan out')
+        expect(chunks.join('').endsWith('\n')).toBe(true)
+        expect(sink).toHaveBeenCalledTimes(1)
+        const [entry, lines] = sink.mock.calls[0]
+        expect(entry).toMatchObject({ type: 'info', level: LEVELS['5_INFO'], args: ['fan out'], boundDatas: { service: 'api', requestId: 'r1' } })
+        expect(entry.date).toBeInstanceOf(Date)
+        expect(lines[0]).toContain('fan out')
+    })
+
+    it('should filter each transport on its own level', () => {
+        const verbose = vi.fn(), quiet = vi.fn()
+        const logger = Loggy.createLogger({
+            level: LEVELS['5_INFO'],
+            transports: [functionTransport(verbose, { level: LEVELS['7_DEBUG'] }), functionTransport(quiet)]
+        })
+        logger.debug('debug')
+        logger.info('info')
+        expect(verbose).toHaveBeenCalledTimes(2)
+        expect(quiet).toHaveBeenCalledTimes(1)
+    })
+
+    it('should use the transport formatter when given', () => {
+        const sink = vi.fn()
+        const logger = Loggy.createLogger({
+            level: LEVELS['5_INFO'],
+            transports: [functionTransport(sink, { format: (entry) => `${entry.type}|${entry.args.join(',')}` })]
+        })
+        logger.warn('a', 'b')
+        expect(sink.mock.calls[0][1]).toEqual(['warn|a,b'])
+    })
+
+    it('should keep writing to the other transports when one throws', () => {
+        const warn = vi.spyOn(console, 'warn').mockImplementation(() => {})
+        const sink = vi.fn()
+        const failing = functionTransport(() => { throw new Error('sink down') })
+        const badFormat = functionTransport(sink, { format: () => { throw new Error('bad format') } })
+        const logger = new LoggyLogger().createLogger({ level: LEVELS['5_INFO'], transports: [failing, badFormat, functionTransport(sink)] })
+        expect(() => logger.info('still logged')).not.toThrow()
+        expect(sink).toHaveBeenCalledTimes(1)
+        expect(sink.mock.calls[0][0].args).toEqual(['still logged'])
+        expect(warn.mock.calls.map(c => c[0])).toEqual([
+            '[LoggyLogger] Transport failed, record not written to it: sink down',
+            '[LoggyLogger] Transport failed, record not written to it: bad format',
+        ])
+        warn.mockRestore()
+    })
+
+    it('should not throw from the dedup timer when a transport fails', () => {
+        vi.useFakeTimers()
+        const warn = vi.spyOn(console, 'warn').mockImplementation(() => {})
+        let fail = false
+        const logger = new LoggyLogger().createLogger({ level: LEVELS['5_INFO'], dedup: { timeoutMs: 100 }, transports: [functionTransport(() => { if (fail) throw new Error('sink down') })] })
+        logger.info('repeated')
+        logger.info('repeated')
+        fail = true
+        expect(() => vi.advanceTimersByTime(100)).not.toThrow()
+        expect(warn).toHaveBeenCalledTimes(1)
+        warn.mockRestore()
+        vi.useRealTimers()
+    })
+
+    it('should use global transports when set through setConfig', () => {
+        const sink = vi.fn()
+        const loggy = new LoggyLogger()
+        const previous = LoggerClass.conf.get().transports
+        loggy.setConfig({ transports: [functionTransport(sink)] })
+        try {
+            loggy.createLogger().log('global transport')
+            expect(sink).toHaveBeenCalledTimes(1)
+            expect(console.log).not.toHaveBeenCalled()
+        } finally {
+            loggy.setConfig({ transports: previous })
+        }
+    })
+})
+
+// ============================================================================
+// OUTPUT FORMATS
+// ============================================================================
+describe('format', () => {
+    beforeEach(() => {
+        setupConsoleMock()
+    })
+
+    afterEach(() => {
+        restoreConsole()
+    })
+
+    it('should output one JSON object per log in json mode', () => {
+        const logger = Loggy.createLogger({ level: LEVELS['5_INFO'], format: 'json', showCallLines: true }, { requestId: 'r1' })
+        logger._instance.setCallLineGetter(() => './src/app.ts:12')
+        logger.bind({ userId: 42 }).warn('first\nsecond', { big: BigInt(10) })
+        expect(console.log).toHaveBeenCalledTimes(1)
+        const parsed = JSON.parse(consoleOutput[0])
+        expect(parsed).toEqual({
+            timestamp: expect.any(String),
+            type: 'warn',
+            level: LEVELS['3_WARN'],
+            callLine: './src/app.ts:12',
+            namespace: '',
+            message: 'first\nsecond',
+            args: [{ big: '10' }],
+            boundDatas: { requestId: 'r1', userId: 42 }
+        })
+    })
+
+    it('should not throw on circular objects in json mode', () => {
+        const logger = Loggy.createLogger({ level: LEVELS['5_INFO'], format: 'json' })
+        const obj: Record<string, unknown> = { a: 1 }
+        obj.self = obj
+        logger.info(obj)
+        expect(JSON.parse(consoleOutput[0]).args).toEqual([{ a: 1, self: '[Circular]' }])
+    })
+
+    it('should keep objects referenced more than once in json mode', () => {
+        const logger = Loggy.createLogger({ level: LEVELS['5_INFO'], format: 'json' })
+        const user = { id: 42 }
+        logger.bind({ user }).info('login', user, { a: user, b: [user, { user }] })
+        const parsed = JSON.parse(consoleOutput[0])
+        expect(parsed.args).toEqual([{ id: 42 }, { a: { id: 42 }, b: [{ id: 42 }, { user: { id: 42 } }] }])
+        expect(parsed.boundDatas).toEqual({ user: { id: 42 } })
+    })
+
+    it('should output key=value pairs in logfmt mode', () => {
+        const logger = Loggy.createLogger({ level: LEVELS['5_INFO'], format: 'logfmt' }, { requestId: 'r1' })
+        logger.info('user "bob"\nlogged in', { id: 1 })
+        expect(console.log).toHaveBeenCalledTimes(1)
+        expect(consoleOutput[0]).toMatch(/^timestamp=\S+ type=info level=50 callLine="" namespace="" message="user \\"bob\\"\\nlogged in" args="\[\{\\"id\\":1\}\]" requestId=r1$/)
+    })
+
+    it('should prefix logfmt properties and bound datas colliding with other keys', () => {
+        const logger = Loggy.createLogger({ level: LEVELS['5_INFO'], format: 'logfmt' })
+        logger.bind({ level: 'admin', message: 'x', user: 'bob' }).info('{user} logged in', { user: 'alice', args: 1 })
+        expect(consoleOutput[0]).toMatch(/ level=50 callLine="" namespace="" message="alice logged in" template="\{user\} logged in" user=alice properties\.args=1 boundDatas\.level=admin boundDatas\.message=x boundDatas\.user=bob$/)
+    })
+
+    it('should not show bound datas in pretty output by default', () => {
+        const logger = Loggy.createLogger({ level: LEVELS['5_INFO'], colors: false }, { requestId: 'r1' })
+        logger.info('hello')
+        expect(consoleOutput[0]).not.toContain('requestId')
+    })
+
+    it('should append bound datas as key=value pairs', () => {
+        const logger = Loggy.createLogger({ level: LEVELS['5_INFO'], colors: false, showBoundDatas: true }, { requestId: 'r1' })
+        logger.bind({ user: { id: 42 } }).info('line1\nline2')
+        expect(consoleOutput).toHaveLength(2)
+        expect(consoleOutput[0]).not.toContain('requestId')
+        expect(consoleOutput[1]).toMatch(/line2 requestId=r1 user=\{ id: 42 \}$/)
+    })
+
+    it('should render bound datas as a dimmed inspected object', () => {
+        const logger = Loggy.createLogger({ level: LEVELS['5_INFO'], colors: true, showBoundDatas: true, boundDatasStyle: 'inspect' }, { requestId: 'r1' })
+        logger.info('hello')
+        expect(consoleOutput[0]).toContain(`hello ${colors.Dim}{ requestId: 'r1' }${colors.Reset}`)
+    })
+
+    it('should filter and truncate bound datas', () => {
+        const logger = Loggy.createLogger({
+            level: LEVELS['5_INFO'], colors: false, showBoundDatas: true,
+            boundDatasKeys: ['token'], boundDatasMaxLength: 4
+        }, { requestId: 'r1', token: 'abcdefgh' })
+        logger.info('hello')
+        expect(consoleOutput[0]).toMatch(/hello token=abcd…$/)
+    })
+
+    it('should keep the pretty format by default', () => {
+        const logger = Loggy.createLogger({ level: LEVELS['5_INFO'] })
+        logger.info('line1\nline2')
+        expect(console.log).toHaveBeenCalledTimes(2)
+    })
+})
+
+// ============================================================================
+// CUSTOM LEVELS
+// ============================================================================
+describe('custom levels', () => {
+    beforeEach(() => {
+        setupConsoleMock()
+    })
+
+    afterEach(() => {
+        restoreConsole()
+    })
+
+    const createLoggy = () => new LoggyLogger({
+        levels: {
+            audit: { level: 25, color: 'FgMagenta', emoji: '✎' },
+            trace: { level: 95 }
+        }
+    })
+
+    it('should add typed methods for custom levels', () => {
+        const logger = createLoggy().createLogger({ level: LEVELS['3_WARN'], colors: false })
+        logger.audit('user deleted')
+        logger.trace('not shown')
+        expect(consoleOutput).toHaveLength(1)
+        expect(consoleOutput[0]).toContain('✎')
+        expect(consoleOutput[0]).toContain(' A  user deleted')
+    })
+
+    it('should filter custom levels on their priority', () => {
+        const logger = createLoggy().createLogger({ level: 100 })
+        logger.trace('very verbose')
+        expect(consoleOutput).toHaveLength(1)
+        expect(consoleOutput[0]).toContain(' T ')
+    })
+
+    it('should use the custom level color', () => {
+        const logger = createLoggy().createLogger({ level: LEVELS['3_WARN'], colors: true })
+        logger.audit('colored')
+        expect(consoleOutput[0].startsWith(colors.FgMagenta)).toBe(true)
+        expect(consoleOutput[0]).toContain(colors.BgMagenta)
+    })
+
+    it('should broadcast and bind custom levels', () => {
+        const broadcast = vi.fn()
+        const logger = createLoggy().createLogger({ level: LEVELS['3_WARN'] }, { a: 1 })
+        logger._instance.setBroadcast(broadcast)
+        logger.bind({ b: 2 }).audit('bound audit')
+        expect(broadcast).toHaveBeenCalledWith('audit', expect.any(String), expect.any(Date), ['bound audit'], { a: 1, b: 2 })
+        expect(consoleOutput).toHaveLength(1)
+    })
+
+    it('should add levels with addLevels', () => {
+        const logger = new LoggyLogger().addLevels({ notice: { level: 45 } }).createLogger({ level: LEVELS['5_INFO'] })
+        logger.notice('noticed')
+        expect(consoleOutput).toHaveLength(1)
+    })
+
+    it('should reject invalid level names', () => {
+        expect(() => new LoggyLogger().addLevels({ info: { level: 1 } })).toThrow()
+        expect(() => new LoggyLogger().addLevels({ bind: { level: 1 } })).toThrow()
+        expect(() => new LoggyLogger().addLevels({ child: { level: 1 } })).toThrow()
+        expect(() => new LoggyLogger().addLevels({ startTimer: { level: 1 } })).toThrow()
+        expect(() => new LoggyLogger().addLevels({ 'not a name': { level: 1 } })).toThrow()
+    })
+
+    it('should keep custom levels to their instance and its dashboard', async () => {
+        vi.spyOn(console, 'warn').mockImplementation(() => {})
+        const loggy = createLoggy()
+        const other = new LoggyLogger()
+        expect('audit' in loggy.createLogger()).toBe(true)
+        expect('audit' in other.createLogger()).toBe(false)
+        expect('audit' in Loggy.createLogger()).toBe(false)
+
+        const levels = async (instance: Pick<LoggyLogger, 'startDashboard' | 'getDashboardServer' | 'getDashboardPort' | 'stopDashboard'>) => {
+            instance.startDashboard(0)
+            const server = instance.getDashboardServer()!.server
+            await new Promise(resolve => server.once('listening', resolve))
+            const response = await (await fetch(`http://127.0.0.1:${instance.getDashboardPort()}/api/levels`)).json() as { levels: Array<{ name: string }> }
+            await instance.stopDashboard()
+            return response.levels.map(l => l.name)
+        }
+        expect(await levels(loggy)).toEqual(['audit', 'trace'])
+        expect(await levels(other)).toEqual([])
+        vi.restoreAllMocks()
+    })
+
+    it('should disable custom levels less important than error in production', () => {
+        const loggy = new LoggyLogger({
+            levels: { audit: { level: 25 }, alert: { level: 15 } },
+            production: true
+        })
+        const logger = loggy.createLogger({ level: LEVELS['9_SILLY'] })
+        logger.audit('disabled')
+        logger.alert('enabled')
+        expect(consoleOutput).toHaveLength(1)
+        loggy.enableProduction({ logs: { audit: true } })
+        loggy.createLogger({ level: LEVELS['9_SILLY'] }).audit('enabled')
+        expect(consoleOutput).toHaveLength(2)
+        loggy.disableProduction()
+    })
+})
+
+// ============================================================================
+// NAMESPACES
+// ============================================================================
+describe('namespaces', () => {
+    beforeEach(() => {
+        setupConsoleMock()
+    })
+
+    afterEach(() => {
+        restoreConsole()
+    })
+
+    it('should print the namespace in the console prefix', () => {
+        const logger = Loggy.createLogger({ name: 'db:pool', level: LEVELS['5_INFO'], colors: false })
+        logger.info('connected')
+        expect(consoleOutput[0]).toContain('[db:pool] connected')
+    })
+
+    it('should build a namespace hierarchy with child()', () => {
+        const sink = vi.fn()
+        const logger = Loggy.createLogger({ name: 'db', level: LEVELS['5_INFO'], transports: [functionTransport(sink)] }, { a: 1 })
+        const child = logger.bind({ b: 2 }).child('pool').child('queries')
+        expect(child._instance.getNamespace()).toBe('db:pool:queries')
+        child.info('query')
+        expect(sink.mock.calls[0][0]).toMatchObject({ namespace: 'db:pool:queries', boundDatas: { a: 1, b: 2 } })
+    })
+
+    it('should create children without config once per name', () => {
+        const sink = vi.fn()
+        const loggy = new LoggyLogger()
+        const logger = loggy.createLogger({ name: 'api', level: LEVELS['5_INFO'], transports: [functionTransport(sink)] }, { a: 1 })
+        const createLogger = vi.spyOn(loggy, 'createLogger')
+        for (let i = 0; i < 1000; i++) logger.bind({ requestId: i }).child('req').info('handled')
+        expect(createLogger).toHaveBeenCalledTimes(1)
+        expect(logger.child('req')).toBe(logger.child('req'))
+        expect(sink.mock.calls[999][0]).toMatchObject({ namespace: 'api:req', boundDatas: { a: 1, requestId: 999 } })
+
+        logger.child('req', { level: LEVELS['7_DEBUG'] })
+        expect(createLogger).toHaveBeenCalledTimes(2)
+        createLogger.mockRestore()
+    })
+
+    it('should send the namespace to the dashboard', async () => {
+        const loggy = new LoggyLogger()
+        const logger = loggy.createLogger({ name: 'api' })
+        const broadcast = await spyOnDashboard(loggy)
+        logger.info('hello')
+        expect(broadcast).toHaveBeenCalledWith('log-info', expect.any(String), expect.any(Date), ['hello'], {}, 'api', undefined, {})
+    })
+
+    it('should raise the level of matching namespaces', () => {
+        const patterns = 'db:*,-db:pool:verbose'
+        const pool = Loggy.createLogger({ name: 'db:pool', level: LEVELS['3_WARN'], namespaces: patterns })
+        const verbose = pool.child('verbose')
+        const http = Loggy.createLogger({ name: 'http', level: LEVELS['3_WARN'], namespaces: patterns })
+        pool.silly('shown')
+        verbose.debug('hidden')
+        http.debug('hidden')
+        expect(consoleOutput).toHaveLength(1)
+        expect(consoleOutput[0]).toContain('shown')
+    })
+
+    it('should accept a level per namespace pattern', () => {
+        const logger = Loggy.createLogger({ name: 'db', level: LEVELS['3_WARN'], namespaces: 'db=debug' })
+        logger.debug('shown')
+        logger.verbose('hidden')
+        expect(consoleOutput).toHaveLength(1)
+    })
+})
+
+// ============================================================================
+// REDACTION
+// ============================================================================
+describe('redact', () => {
+    const capture = (redact: Record<string, unknown>) => {
+        const sink = vi.fn()
+        const logger = Loggy.createLogger({ level: LEVELS['5_INFO'], transports: [functionTransport(sink)], redact })
+        return { logger, entry: () => sink.mock.calls[0][0] }
+    }
+
+    it('should mask keys at any depth without mutating the original', () => {
+        const { logger, entry } = capture({ keys: ['password', '*token*'] })
+        const user = { name: 'bob', password: 'hunter2', auth: { accessToken: 'abc', list: [{ refresh_token: 'x' }] } }
+        logger.info('login', user)
+        expect(entry().args[1]).toEqual({ name: 'bob', password: '[REDACTED]', auth: { accessToken: '[REDACTED]', list: [{ refresh_token: '[REDACTED]' }] } })
+        expect(user.password).toBe('hunter2')
+    })
+
+    it('should redact dotted paths with wildcards', () => {
+        const { logger, entry } = capture({ paths: ['req.headers.authorization', 'users.*.ssn'] })
+        logger.info({ req: { headers: { authorization: 'secret', host: 'a' } }, users: [{ ssn: 1 }, { ssn: 2 }], ssn: 3 })
+        expect(entry().args[0]).toEqual({ req: { headers: { authorization: '[REDACTED]', host: 'a' } }, users: [{ ssn: '[REDACTED]' }, { ssn: '[REDACTED]' }], ssn: 3 })
+    })
+
+    it('should censor value patterns inside strings', () => {
+        const { logger, entry } = capture({ patterns: [REDACT_PATTERNS.bearer, REDACT_PATTERNS.creditCard] })
+        logger.info('header Bearer abc.def-123', { card: 'paid with 4111 1111 1111 1111' })
+        expect(entry().args).toEqual(['header [REDACTED]', { card: 'paid with [REDACTED]' }])
+    })
+
+    it('should hash or remove values depending on the censor', () => {
+        const hashed = capture({ keys: ['token'], censor: 'hash' })
+        hashed.logger.info({ token: 'abc' })
+        expect(hashed.entry().args[0].token).toMatch(/^\[sha256:[0-9a-f]{16}\]$/)
+
+        const removed = capture({ keys: ['token'], censor: 'remove' })
+        removed.logger.info({ token: 'abc', id: 1 })
+        expect(removed.entry().args[0]).toEqual({ id: 1 })
+    })
+
+    it('should redact bound datas and errors', () => {
+        const { logger, entry } = capture({ keys: ['apiKey'], patterns: ['sk-\\w+'] })
+        logger.bind({ apiKey: 'k', user: 'bob' }).error(new Error('bad key sk-123'))
+        expect(entry().boundDatas).toEqual({ apiKey: '[REDACTED]', user: 'bob' })
+        expect(entry().args[0]).toBeInstanceOf(Error)
+        expect(entry().args[0].message).toBe('bad key [REDACTED]')
+    })
+
+    it('should redact Map entries and Set items', () => {
+        const { logger, entry } = capture({ keys: ['password'], patterns: ['sk-\\w+'] })
+        const credentials = new Map<unknown, unknown>([['password', 'hunter2'], ['user', { password: 'p' }], [1, 'sk-123']])
+        logger.info('x', credentials, new Set(['sk-456', { password: 'p' }]))
+        expect(entry().args[1]).toEqual(new Map<unknown, unknown>([['password', '[REDACTED]'], ['user', { password: '[REDACTED]' }], [1, '[REDACTED]']]))
+        expect(entry().args[2]).toEqual(new Set(['[REDACTED]', { password: '[REDACTED]' }]))
+        expect(credentials.get('password')).toBe('hunter2')
+
+        const removed = capture({ keys: ['password'], censor: 'remove' })
+        removed.logger.info(new Map([['password', 'hunter2'], ['user', 'bob']]))
+        expect(removed.entry().args[0]).toEqual(new Map([['user', 'bob']]))
+    })
+
+    it('should handle circular references', () => {
+        const { logger, entry } = capture({ keys: ['secret'] })
+        const obj: Record<string, unknown> = { secret: 's' }
+        obj.self = obj
+        logger.info(obj)
+        expect(entry().args[0].secret).toBe('[REDACTED]')
+        expect(entry().args[0].self).toBe(entry().args[0])
+    })
+
+    it('should send the same redacted record to the dashboard', async () => {
+        const loggy = new LoggyLogger()
+        const sink = vi.fn()
+        const logger = loggy.createLogger({ transports: [functionTransport(sink)], redact: { keys: ['password'] } }, { password: 'p' })
+        const broadcast = await spyOnDashboard(loggy)
+        logger.info({ password: 'p' })
+        expect(broadcast).toHaveBeenCalledWith('log-info', expect.any(String), expect.any(Date), [{ password: '[REDACTED]' }], { password: '[REDACTED]' }, '', undefined, {})
+        expect(broadcast.mock.calls[0][3]).toBe(sink.mock.calls[0][0].args)
+    })
+})
+
+// ============================================================================
+// RATE LIMITING
+// ============================================================================
+describe('rateLimit', () => {
+    beforeEach(() => {
+        vi.useFakeTimers()
+    })
+
+    afterEach(() => {
+        vi.useRealTimers()
+        vi.restoreAllMocks()
+    })
+
+    it('should limit logs per call site and emit a summary when the window ends', () => {
+        const sink = vi.fn()
+        const logger = new LoggyLogger().createLogger({ level: LEVELS['7_DEBUG'], transports: [functionTransport(sink)], rateLimit: { max: 3, windowMs: 10_000 } })
+        for (let i = 0; i < 1246; i++) logger.debug('tick', i)
+        logger.debug('other call site')
+        expect(sink).toHaveBeenCalledTimes(4)
+
+        vi.advanceTimersByTime(10_000)
+        expect(sink).toHaveBeenCalledTimes(5)
+        const summary = sink.mock.calls[4][0]
+        expect(summary.type).toBe('debug')
+        expect(summary.args[0]).toMatch(/^suppressed 1,243 similar messages from .*logger\.test\.ts:\d+ in last 10s$/)
+    })
+
+    it('should start a new window after windowMs', () => {
+        const sink = vi.fn()
+        const logger = Loggy.createLogger({ level: LEVELS['5_INFO'], transports: [functionTransport(sink)], rateLimit: { max: 1, windowMs: 1000 } })
+        const tick = () => logger.info('tick')
+        tick(); tick()
+        vi.advanceTimersByTime(1000)
+        tick()
+        expect(sink.mock.calls.map(c => c[0].args[0])).toEqual(['tick', expect.stringMatching(/^suppressed 1 similar messages/), 'tick'])
+    })
+
+    it('should sample logs per level', () => {
+        const sink = vi.fn()
+        const logger = Loggy.createLogger({ level: LEVELS['7_DEBUG'], transports: [functionTransport(sink)], rateLimit: { sample: { debug: 0.5 } } })
+        const random = vi.spyOn(Math, 'random')
+        random.mockReturnValueOnce(0.2).mockReturnValueOnce(0.7)
+        logger.debug('kept')
+        logger.debug('dropped')
+        logger.info('not sampled')
+        expect(sink.mock.calls.map(c => c[0].args[0])).toEqual(['kept', 'not sampled'])
+    })
+
+    it('should also limit dashboard broadcasts', async () => {
+        const loggy = new LoggyLogger()
+        const logger = loggy.createLogger({ rateLimit: { max: 2 } })
+        const broadcast = await spyOnDashboard(loggy)
+        for (let i = 0; i < 5; i++) logger.silly('spam')
+        expect(broadcast).toHaveBeenCalledTimes(2)
+        vi.advanceTimersByTime(10_000)
+        expect(broadcast).toHaveBeenCalledTimes(3)
+        expect(broadcast.mock.calls[2][3][0]).toMatch(/^suppressed 3 similar messages/)
+    })
+})
+
+// ============================================================================
+// DEDUP
+// ============================================================================
+describe('dedup', () => {
+    beforeEach(() => {
+        vi.useFakeTimers()
+    })
+
+    afterEach(() => {
+        vi.useRealTimers()
+    })
+
+    const capture = (dedup: boolean | { timeoutMs?: number } = true) => {
+        const sink = vi.fn()
+        const logger = Loggy.createLogger({ level: LEVELS['5_INFO'], transports: [functionTransport(sink)], dedup })
+        return { logger, messages: () => sink.mock.calls.map(c => c[0].args.join(' ')) }
+    }
+
+    it('should collapse consecutive identical logs when a different log arrives', () => {
+        const { logger, messages } = capture()
+        for (let i = 0; i < 4; i++) logger.error('connection refused', { port: 5432 })
+        logger.info('connected')
+        expect(messages()).toEqual(['connection refused [object Object]', 'connection refused [object Object] (repeated ×3)', 'connected'])
+    })
+
+    it('should not collapse logs with different types or bound datas', () => {
+        const { logger, messages } = capture()
+        logger.info('same')
+        logger.warn('same')
+        logger.bind({ a: 1 }).warn('same')
+        expect(messages()).toEqual(['same', 'same', 'same'])
+    })
+
+    it('should compare logs as they were when logged, not their current contents', () => {
+        const { logger, messages } = capture()
+        const state = { n: 1 }
+        logger.info('state', state)
+        state.n++
+        logger.info('state', state)
+        logger.info('state', { n: 2 })
+        logger.info('done')
+        expect(messages()).toEqual(['state [object Object]', 'state [object Object]', 'state [object Object] (repeated ×1)', 'done'])
+    })
+
+    it('should date the repeat count with the latest repeat', () => {
+        const sink = vi.fn()
+        const logger = Loggy.createLogger({ level: LEVELS['5_INFO'], transports: [functionTransport(sink)], dedup: true })
+        logger.info('tick')
+        vi.advanceTimersByTime(10)
+        logger.info('tick')
+        vi.advanceTimersByTime(10)
+        logger.info('other')
+        const dates = sink.mock.calls.map(c => c[0].date.getTime())
+        expect(sink.mock.calls.map(c => c[0].args.join(' '))).toEqual(['tick', 'tick (repeated ×1)', 'other'])
+        expect(dates[1] - dates[0]).toBe(10)
+        expect(dates[2] - dates[1]).toBe(10)
+    })
+
+    it('should output the repeat count when the timeout expires', () => {
+        const { logger, messages } = capture({ timeoutMs: 1000 })
+        logger.info('polling failed')
+        logger.info('polling failed')
+        logger.info('polling failed')
+        expect(messages()).toHaveLength(1)
+        vi.advanceTimersByTime(1000)
+        expect(messages()).toEqual(['polling failed', 'polling failed (repeated ×2)'])
+        logger.info('polling failed')
+        logger.info('other')
+        expect(messages()).toEqual(['polling failed', 'polling failed (repeated ×2)', 'polling failed (repeated ×1)', 'other'])
+    })
+
+    it('should send the repeat count to the dashboard instead of every repeat', async () => {
+        const loggy = new LoggyLogger()
+        const logger = loggy.createLogger({ dedup: true, transports: [] })
+        const broadcast = await spyOnDashboard(loggy)
+        for (let i = 0; i < 5; i++) logger.warn('retrying')
+        logger.warn('done')
+        expect(broadcast).toHaveBeenCalledTimes(3)
+        expect(broadcast.mock.calls[0]).toEqual(['log-warn', expect.any(String), expect.any(Date), ['retrying'], {}, '', undefined, {}])
+        expect(broadcast.mock.calls[1]).toEqual(['log-warn', expect.any(String), expect.any(Date), ['retrying'], {}, '', { repeats: 4 }, {}])
+        expect(broadcast.mock.calls[2][3]).toEqual(['done'])
+    })
+})
+
+// ============================================================================
+// LOG RECORD
+// ============================================================================
+describe('log record', () => {
+    it('should share one frozen record between the dashboard and the transports', () => {
+        const sink = vi.fn()
+        const logger = Loggy.createLogger({ level: LEVELS['5_INFO'], showCallLines: true, transports: [functionTransport(sink), functionTransport(sink)] })
+        const broadcast = vi.fn()
+        logger._instance.setBroadcast(broadcast)
+        logger.info('hello')
+
+        const record = sink.mock.calls[0][0]
+        expect(Object.isFrozen(record)).toBe(true)
+        expect(sink.mock.calls[1][0]).toBe(record)
+        expect(broadcast).toHaveBeenCalledWith('info', record.callLine, record.date, record.args, record.boundDatas)
+        expect(record.callLine).toMatch(/logger\.test\.ts:\d+$/)
+    })
+
+    it('should capture the call line once per call', () => {
+        const getter = vi.fn(() => 'file.ts:1')
+        const logger = new LoggerClass({ level: LEVELS['5_INFO'], showCallLines: true, transports: [functionTransport(() => {})] })
+        logger.setCallLineGetter(getter)
+        logger.setBroadcast(() => {})
+        logger.info('hello')
+        expect(getter).toHaveBeenCalledTimes(1)
+    })
+
+    it('should not build a record for disabled levels without a dashboard', async () => {
+        const getter = vi.fn(() => 'file.ts:1')
+        const write = vi.fn()
+        const loggy = new LoggyLogger()
+        const logger = loggy.createLogger({ level: LEVELS['3_WARN'], showCallLines: true, transports: [{ write }] })
+        logger._instance.setCallLineGetter(getter)
+        logger.debug('hidden')
+        expect(getter).not.toHaveBeenCalled()
+        expect(write).not.toHaveBeenCalled()
+
+        // The dashboard still receives every level
+        const broadcast = await spyOnDashboard(loggy)
+        logger.debug('broadcast only')
+        expect(getter).toHaveBeenCalledTimes(1)
+        expect(broadcast).toHaveBeenCalledTimes(1)
+        expect(write).not.toHaveBeenCalled()
+    })
+})
+
+// ============================================================================
+// HOOKS
+// ============================================================================
+describe('hooks (use)', () => {
+    const setup = (level = LEVELS['5_INFO']) => {
+        const sink = vi.fn()
+        const loggy = new LoggyLogger()
+        const logger = loggy.createLogger({ level, transports: [functionTransport(sink)] })
+        return { loggy, logger, records: () => sink.mock.calls.map(c => c[0]) }
+    }
+
+    it('should enrich records of loggers and bound interfaces', () => {
+        const { loggy, logger, records } = setup()
+        loggy.use(record => ({ ...record, boundDatas: { ...record.boundDatas, pid: 42 } }))
+        logger.info('a')
+        logger.bind({ requestId: 'r1' }).info('b')
+        expect(records().map(r => r.boundDatas)).toEqual([{ pid: 42 }, { requestId: 'r1', pid: 42 }])
+    })
+
+    it('should run hooks in the order they were added', () => {
+        const { loggy, logger, records } = setup()
+        loggy
+            .use(record => ({ ...record, args: [...record.args, 'first'] }))
+            .use(record => ({ ...record, args: [...record.args, 'second'] }))
+        logger.info('msg')
+        expect(records()[0].args).toEqual(['msg', 'first', 'second'])
+    })
+
+    it('should drop records when a hook returns null', () => {
+        const { loggy, logger, records } = setup()
+        const after = vi.fn()
+        loggy.use(record => record.args[0] === 'healthcheck' ? null : undefined).use(after)
+        logger.info('healthcheck')
+        logger.info('kept')
+        expect(records().map(r => r.args[0])).toEqual(['kept'])
+        expect(after).toHaveBeenCalledTimes(1)
+    })
+
+    it('should change the level with the type', () => {
+        const { loggy, logger, records } = setup(LEVELS['3_WARN'])
+        loggy.use(record => record.type === 'warn' && String(record.args[0]).includes('timeout') ? { ...record, type: 'error' } : record)
+        loggy.use(record => record.type === 'error' ? undefined : { ...record, type: 'debug' })
+        logger.warn('db timeout')
+        logger.warn('slow')
+        expect(records()).toHaveLength(1)
+        expect(records()[0]).toMatchObject({ type: 'error', level: LEVELS['2_ERROR'], args: ['db timeout'] })
+    })
+
+    it('should redact what hooks added', () => {
+        const sink = vi.fn()
+        const loggy = new LoggyLogger()
+        const logger = loggy.createLogger({ level: LEVELS['5_INFO'], transports: [functionTransport(sink)], redact: { keys: ['token'] } })
+        loggy.use(record => ({ ...record, boundDatas: { token: 'abc' } }))
+        logger.info('msg')
+        expect(sink.mock.calls[0][0].boundDatas).toEqual({ token: '[REDACTED]' })
+    })
+
+    it('should keep the record when a hook throws', () => {
+        const { loggy, logger, records } = setup()
+        const warn = vi.spyOn(console, 'warn').mockImplementation(() => {})
+        loggy.use(() => { throw new Error('boom') })
+        logger.info('msg')
+        expect(records()[0].args).toEqual(['msg'])
+        expect(warn).toHaveBeenCalledWith(expect.stringContaining('boom'))
+        warn.mockRestore()
+    })
+})
+
+// ============================================================================
+// LAZY ARGUMENTS
+// ============================================================================
+describe('lazy arguments', () => {
+    it('should not call the thunk for disabled levels without a dashboard', () => {
+        const sink = vi.fn()
+        const logger = new LoggyLogger().createLogger({ level: LEVELS['5_INFO'], transports: [functionTransport(sink)] })
+        const thunk = vi.fn(() => ['state', { huge: true }])
+        logger.debug(() => thunk())
+        expect(thunk).not.toHaveBeenCalled()
+        expect(sink).not.toHaveBeenCalled()
+    })
+
+    it('should resolve the thunk once and share the result', async () => {
+        const sink = vi.fn()
+        const loggy = new LoggyLogger()
+        const logger = loggy.createLogger({ level: LEVELS['7_DEBUG'], transports: [functionTransport(sink), functionTransport(sink)] })
+        const broadcast = await spyOnDashboard(loggy)
+        const thunk = vi.fn(() => ['state', { huge: true }])
+        logger.bind({ a: 1 }).debug(() => thunk())
+        expect(thunk).toHaveBeenCalledTimes(1)
+        expect(sink.mock.calls[0][0].args).toEqual(['state', { huge: true }])
+        expect(sink.mock.calls[1][0].args).toBe(sink.mock.calls[0][0].args)
+        expect(broadcast.mock.calls[0][3]).toBe(sink.mock.calls[0][0].args)
+    })
+
+    it('should accept a single value and report thunk errors', () => {
+        const sink = vi.fn()
+        const logger = new LoggyLogger().createLogger({ level: LEVELS['5_INFO'], transports: [functionTransport(sink)] })
+        logger.info(() => 'single')
+        logger.info(() => { throw new Error('boom') })
+        expect(sink.mock.calls[0][0].args).toEqual(['single'])
+        expect(sink.mock.calls[1][0].args).toEqual(['[LoggyLogger] Lazy log arguments failed:', new Error('boom')])
+    })
+
+    it('should keep functions passed with other args', () => {
+        const sink = vi.fn()
+        const logger = new LoggyLogger().createLogger({ level: LEVELS['5_INFO'], transports: [functionTransport(sink)] })
+        const fn = vi.fn()
+        logger.info('callback', fn)
+        expect(fn).not.toHaveBeenCalled()
+        expect(sink.mock.calls[0][0].args).toEqual(['callback', fn])
+    })
+
+    it('should log lone classes and regular functions as values', () => {
+        const sink = vi.fn()
+        const logger = new LoggyLogger().createLogger({ level: LEVELS['5_INFO'], transports: [functionTransport(sink)] })
+        class Handler {}
+        const handler = vi.fn(function handler() { return 'side effect' })
+        logger.info(Handler)
+        logger.info(handler)
+        expect(handler).not.toHaveBeenCalled()
+        expect(sink.mock.calls.map(c => c[0].args)).toEqual([[Handler], [handler]])
+    })
+
+    it('should log built-in, bound, method and async functions as values', () => {
+        const sink = vi.fn()
+        const logger = new LoggyLogger().createLogger({ level: LEVELS['5_INFO'], transports: [functionTransport(sink)] })
+        const calls: string[] = []
+        const target = { m() { calls.push('method') } }
+        const bound = function (this: string[]) { this.push('bound') }.bind(calls)
+        const asyncArrow = async () => { calls.push('async') }
+        const withParam = (x?: string) => calls.push(x ?? 'param')
+        const values = [Math.max, bound, target.m, asyncArrow, withParam]
+        values.forEach(value => logger.info(value))
+        expect(calls).toEqual([])
+        expect(sink.mock.calls.map(c => c[0].args)).toEqual(values.map(value => [value]))
+    })
+})
+
+// ============================================================================
+// MESSAGE FORMATTING
+// ============================================================================
+describe('message formatting', () => {
+    const capture = (config: Record<string, unknown> = {}) => {
+        const sink = vi.fn()
+        const loggy = new LoggyLogger()
+        const logger = loggy.createLogger({ level: LEVELS['5_INFO'], transports: [functionTransport(sink)], ...config })
+        return { loggy, logger, record: (i = 0) => sink.mock.calls[i][0] }
+    }
+
+    it('should apply printf-style specifiers like util.format', () => {
+        const { logger, record } = capture()
+        logger.info('user %s did %d things (%i%%, %f)', 'bob', 42, 7.9, 1.5)
+        logger.info('%j %o %O', { a: 1 }, [1], { b: 2 })
+        expect(record(0).args).toEqual(['user bob did 42 things (7%, 1.5)'])
+        expect(record(1).args).toEqual([util.format('%j %o %O', { a: 1 }, [1], { b: 2 })])
+    })
+
+    it('should keep args left over by the specifiers', () => {
+        const { logger, record } = capture()
+        const extra = { id: 1 }
+        logger.info('%s loaded', 'config', extra)
+        logger.info('missing %s and %d', 'one')
+        logger.info('100%% done')
+        expect(record(0).args).toEqual(['config loaded', extra])
+        expect(record(1).args).toEqual(['missing one and %d'])
+        expect(record(2).args).toEqual(['100%% done'])
+    })
+
+    it('should render named templates and keep template and properties', () => {
+        const { logger, record } = capture()
+        logger.info('User {userId} logged in from {ip} ({unknown})', { userId: 42, ip: '10.0.0.1' })
+        expect(record()).toMatchObject({
+            args: ['User 42 logged in from 10.0.0.1 ({unknown})'],
+            template: 'User {userId} logged in from {ip} ({unknown})',
+            properties: { userId: 42, ip: '10.0.0.1' }
+        })
+    })
+
+    it('should not treat objects without matching placeholders as properties', () => {
+        const { logger, record } = capture()
+        logger.info('Payload {json}', { other: true })
+        expect(record().args).toEqual(['Payload {json}', { other: true }])
+        expect(record().template).toBeUndefined()
+    })
+
+    it('should render templates from redacted properties', () => {
+        const { logger, record } = capture({ redact: { keys: ['password'] } })
+        logger.info('Login {user} with {password}', { user: 'bob', password: 'hunter2' })
+        expect(record().args).toEqual(['Login bob with [REDACTED]'])
+        expect(record().properties).toEqual({ user: 'bob', password: '[REDACTED]' })
+    })
+
+    it('should output template and properties in json and to the dashboard', async () => {
+        const { loggy, logger } = capture({ transports: [] })
+        const lines: string[] = []
+        const json = loggy.createLogger({ level: LEVELS['5_INFO'], format: 'json', transports: [functionTransport((_e, l) => lines.push(...l))] })
+        json.info('Order {orderId} shipped', { orderId: 7 })
+        expect(JSON.parse(lines[0])).toMatchObject({ message: 'Order 7 shipped', template: 'Order {orderId} shipped', properties: { orderId: 7 } })
+
+        const broadcast = await spyOnDashboard(loggy)
+        logger.info('Order {orderId} shipped', { orderId: 7 })
+        expect(broadcast).toHaveBeenCalledWith('log-info', expect.any(String), expect.any(Date), ['Order 7 shipped'], {}, '',
+            { template: 'Order {orderId} shipped', properties: { orderId: 7 } }, {})
+    })
+})
+
+// ============================================================================
+// ERRORS
+// ============================================================================
+describe('errors', () => {
+    const makeError = () => {
+        const root = Object.assign(new Error('disk full'), { code: 'ENOSPC' })
+        const err = new TypeError('save failed', { cause: root }) as TypeError & { retry: boolean }
+        err.retry = true
+        return err
+    }
+
+    it('should serialize name, message, stack, code, causes and custom properties', () => {
+        const serialized = serializeError(makeError())
+        expect(serialized).toMatchObject({
+            name: 'TypeError', message: 'save failed', stack: expect.stringContaining('TypeError: save failed'),
+            props: { retry: true },
+            cause: { name: 'Error', message: 'disk full', code: 'ENOSPC' }
+        })
+        expect(serialized._type).toBeUndefined()
+        expect(serializeError(new Error('x'), true)._type).toBe('error')
+    })
+
+    it('should serialize AggregateError errors and circular causes', () => {
+        const a = new Error('a')
+        const b = new Error('b', { cause: a })
+        ;(a as Error & { cause: unknown }).cause = b
+        const serialized = serializeError(new AggregateError([a, 'not an error'], 'all failed'))
+        expect(serialized.errors).toEqual([
+            expect.objectContaining({ message: 'a', cause: expect.objectContaining({ message: 'b', cause: '[Circular]' }) }),
+            'not an error'
+        ])
+        expect(serialized.props).toBeUndefined()
+    })
+
+    it('should keep the errors field of other errors with the custom properties', () => {
+        const serialized = serializeError(Object.assign(new Error('Validation failed'), { errors: { email: 'required' } }))
+        expect(serialized.errors).toBeUndefined()
+        expect(serialized.props).toEqual({ errors: { email: 'required' } })
+    })
+
+    it('should render errors on the console without convertObjects', () => {
+        const lines: string[] = []
+        const logger = new LoggyLogger().createLogger({
+            level: LEVELS['5_INFO'], colors: false, convertObjects: false, basePath: process.cwd(),
+            transports: [functionTransport((_e, l) => lines.push(...l))]
+        })
+        logger.error('Upload:', makeError())
+        const output = lines.join('\n')
+        expect(output).toContain('TypeError: save failed')
+        expect(output).toMatch(/at .*\(\.\/src\/__tests__\/logger\.test\.ts:\d+:\d+\)/)
+        expect(output).toContain('{ retry: true }')
+        expect(output).toContain('Caused by: Error: disk full [ENOSPC]')
+        expect(output).not.toContain('\x1b[')
+    })
+
+    it('should serialize errors in json output', () => {
+        const lines: string[] = []
+        const logger = Loggy.createLogger({ level: LEVELS['5_INFO'], format: 'json', transports: [functionTransport((_e, l) => lines.push(...l))] })
+        logger.error(makeError())
+        expect(JSON.parse(lines[0]).args[0]).toMatchObject({ name: 'TypeError', props: { retry: true }, cause: { code: 'ENOSPC' } })
+    })
+
+    it('should send serialized errors to the dashboard', async () => {
+        const warn = vi.spyOn(console, 'warn').mockImplementation(() => {})
+        const loggy = new LoggyLogger()
+        loggy.startDashboard(0)
+        const server = loggy.getDashboardServer()!.server
+        await new Promise(resolve => server.once('listening', resolve))
+        const ws = new WebSocket(`ws://127.0.0.1:${loggy.getDashboardPort()}`)
+        await new Promise(resolve => ws.once('open', resolve))
+
+        const received = new Promise<any>(resolve => ws.once('message', data => resolve(JSON.parse(data.toString()))))
+        loggy.createLogger({ transports: [] }).error(makeError())
+        const message = await received
+        expect(message.argList[0]).toMatchObject({ _type: 'error', name: 'TypeError', message: 'save failed', cause: { _type: 'error', code: 'ENOSPC' } })
+
+        ws.close()
+        loggy.stopDashboard()
+        warn.mockRestore()
+    })
+})
+
+// ============================================================================
+// SOURCE MAPS
+// ============================================================================
+describe('source maps', () => {
+    // dist/app.cjs line 2 comes from src/app.ts line 42
+    const map = { version: 3, file: 'app.cjs', sources: ['../src/app.ts'], names: [], mappings: 'AAAA;EAyCI' }
+    const code = [
+        'module.exports.run = function run(logger) {',
+        '  logger.info(\'from dist\')',
+        '}',
+        'module.exports.create = (loggy) => loggy.createLogger()',
+    ].join('\n')
+    let dir: string
+
+    const loadDist = (sourceMapComment: string) => {
+        fs.mkdirSync(path.join(dir, 'dist'))
+        const file = path.join(dir, 'dist', 'app.cjs')
+        fs.writeFileSync(file, code + sourceMapComment)
+        return createRequire(import.meta.url)(file) as { run: (logger: unknown) => void; create: (loggy: LoggyLogger) => unknown }
+    }
+
+    const callLineOf = (dist: ReturnType<typeof loadDist>, config: Record<string, unknown> = {}) => {
+        const sink = vi.fn()
+        const logger = new LoggyLogger().createLogger({ showCallLines: true, basePath: dir, transports: [functionTransport(sink)], ...config })
+        dist.run(logger)
+        return sink.mock.calls[0][0].callLine
+    }
+
+    beforeEach(() => {
+        dir = fs.mkdtempSync(path.join(os.tmpdir(), 'loggy-sourcemaps-'))
+        clearSourceMapCache()
+    })
+
+    afterEach(() => {
+        fs.rmSync(dir, { recursive: true, force: true })
+    })
+
+    it('should resolve call lines with a .map file next to the compiled file', () => {
+        const dist = loadDist('')
+        fs.writeFileSync(path.join(dir, 'dist', 'app.cjs.map'), JSON.stringify(map))
+        expect(callLineOf(dist)).toBe('./src/app.ts:42')
+    })
+
+    it('should resolve call lines with an inline source map', () => {
+        const dist = loadDist(`\n//# sourceMappingURL=data:application/json;base64,${Buffer.from(JSON.stringify(map)).toString('base64')}`)
+        expect(callLineOf(dist)).toBe('./src/app.ts:42')
+    })
+
+    it('should follow the sourceMappingURL comment and sourceRoot', () => {
+        const dist = loadDist('\n//# sourceMappingURL=../maps/app.map')
+        fs.mkdirSync(path.join(dir, 'maps'))
+        fs.writeFileSync(path.join(dir, 'maps', 'app.map'), JSON.stringify({ ...map, sourceRoot: '../lib', sources: ['app.ts'] }))
+        expect(callLineOf(dist)).toBe('./lib/app.ts:42')
+    })
+
+    it('should keep the compiled location when disabled or without a source map', () => {
+        const dist = loadDist('')
+        expect(callLineOf(dist)).toBe('./dist/app.cjs:2')
+        fs.writeFileSync(path.join(dir, 'dist', 'app.cjs.map'), JSON.stringify(map))
+        clearSourceMapCache()
+        expect(callLineOf(dist, { sourceMaps: false })).toBe('./dist/app.cjs:2')
+    })
+
+    it('should list the original file of loggers created in compiled code', () => {
+        const dist = loadDist('')
+        fs.writeFileSync(path.join(dir, 'dist', 'app.cjs.map'), JSON.stringify({ ...map, mappings: 'AAAA;;;AAAM' }))
+        const loggy = new LoggyLogger()
+        dist.create(loggy)
+        expect(loggy.getLogFiles()).toEqual([path.join(dir, 'src', 'app.ts')])
+    })
+})
+
+// ============================================================================
+// CONTEXT (runWithContext)
+// ============================================================================
+describe('context (runWithContext)', () => {
+    const setup = (boundDatas: Record<string, unknown> = {}) => {
+        const loggy = new LoggyLogger()
+        const sink = vi.fn()
+        const logger = loggy.createLogger({ transports: [functionTransport(sink)] }, boundDatas)
+        const bound = () => sink.mock.calls.map(c => c[0].boundDatas)
+        return { loggy, logger, bound }
+    }
+
+    it('should merge the context into the bound datas of every logger', () => {
+        const { loggy, logger, bound } = setup({ service: 'api' })
+        const other = loggy.createLogger({ transports: logger._instance.localConfig.transports })
+        loggy.runWithContext({ requestId: 'r1' }, () => {
+            logger.info('inside')
+            other.info('other logger')
+        })
+        logger.info('outside')
+        expect(bound()).toEqual([{ service: 'api', requestId: 'r1' }, { requestId: 'r1' }, { service: 'api' }])
+    })
+
+    it('should keep the context across async boundaries', async () => {
+        const { loggy, logger, bound } = setup()
+        const handle = async (delay: number) => {
+            await new Promise(resolve => setTimeout(resolve, delay))
+            logger.info('done')
+        }
+        await Promise.all([
+            loggy.runWithContext({ requestId: 'slow' }, () => handle(20)),
+            loggy.runWithContext({ requestId: 'fast' }, () => handle(1)),
+        ])
+        expect(bound()).toEqual([{ requestId: 'fast' }, { requestId: 'slow' }])
+    })
+
+    it('should layer nested contexts, with bind() datas on top', () => {
+        const { loggy, logger, bound } = setup()
+        loggy.runWithContext({ requestId: 'r1', step: 'outer' }, () => {
+            loggy.runWithContext({ step: 'inner' }, () => {
+                expect(loggy.getContext()).toEqual({ requestId: 'r1', step: 'inner' })
+                logger.bind({ step: 'bound' }).info('bound')
+                logger.info('nested')
+            })
+            logger.info('outer')
+        })
+        expect(loggy.getContext()).toBeUndefined()
+        expect(bound()).toEqual([{ requestId: 'r1', step: 'bound' }, { requestId: 'r1', step: 'inner' }, { requestId: 'r1', step: 'outer' }])
+    })
+
+    it('should return what the function returns', async () => {
+        const { loggy } = setup()
+        expect(loggy.runWithContext({}, () => 42)).toBe(42)
+        await expect(loggy.runWithContext({}, async () => 'async')).resolves.toBe('async')
+    })
+})
+
+// ============================================================================
+// HTTP LOGGER
+// ============================================================================
+describe('httpLogger', () => {
+    let server: http.Server | undefined
+
+    const listen = async (loggy: LoggyLogger, handler: http.RequestListener, options?: Parameters<LoggyLogger['httpLogger']>[0]) => {
+        const sink = vi.fn()
+        const logRequest = loggy.httpLogger(options, { transports: [functionTransport(sink)] })
+        server = http.createServer((req, res) => logRequest(req, res, () => handler(req, res)))
+        server.listen(0)
+        await new Promise(resolve => server?.once('listening', resolve))
+        const { port } = server.address() as { port: number }
+        return { sink, url: `http://127.0.0.1:${port}` }
+    }
+
+    afterEach(async () => {
+        if (server) await new Promise(resolve => server?.close(resolve))
+        server = undefined
+    })
+
+    it('should log method, url, status, duration and content length with a request id', async () => {
+        const { sink, url } = await listen(new LoggyLogger(), (_req, res) => {
+            res.setHeader('content-length', 2)
+            res.end('ok')
+        })
+        const response = await fetch(`${url}/users?id=1`)
+        await response.text()
+        await vi.waitFor(() => expect(sink).toHaveBeenCalledTimes(1))
+
+        const entry = sink.mock.calls[0][0]
+        expect(entry.type).toBe('info')
+        expect(entry.namespace).toBe('http')
+        expect(entry.args[0]).toMatch(/^GET \/users\?id=1 200 [\d.]+ms$/)
+        expect(entry.properties).toMatchObject({ method: 'GET', url: '/users?id=1', status: 200, contentLength: 2 })
+        expect(entry.properties.durationMs).toBeGreaterThanOrEqual(0)
+        expect(entry.boundDatas.requestId).toMatch(/^[0-9a-f-]{36}$/)
+        expect(response.headers.get('x-request-id')).toBe(entry.boundDatas.requestId)
+    })
+
+    it('should pick the level from the status class', async () => {
+        const { sink, url } = await listen(new LoggyLogger(), (req, res) => {
+            res.statusCode = Number(req.url?.slice(1))
+            res.end()
+        })
+        for (const status of [201, 404, 503]) await (await fetch(`${url}/${status}`)).text()
+        await vi.waitFor(() => expect(sink).toHaveBeenCalledTimes(3))
+        expect(sink.mock.calls.map(c => [c[0].properties.status, c[0].type])).toEqual([[201, 'info'], [404, 'warn'], [503, 'error']])
+    })
+
+    it('should bind the request id to every log of the request', async () => {
+        const loggy = new LoggyLogger()
+        const appSink = vi.fn()
+        const appLogger = loggy.createLogger({ transports: [functionTransport(appSink)] })
+        const { sink, url } = await listen(loggy, (_req, res) => {
+            setTimeout(() => {
+                appLogger.info('handling')
+                res.end()
+            }, 5)
+        })
+        await (await fetch(url, { headers: { 'x-request-id': 'req-42' } })).text()
+        await vi.waitFor(() => expect(sink).toHaveBeenCalledTimes(1))
+        expect(sink.mock.calls[0][0].boundDatas).toEqual({ requestId: 'req-42' })
+        expect(appSink.mock.calls[0][0].boundDatas).toEqual({ requestId: 'req-42' })
+    })
+
+    it('should support custom request ids, ignored requests and wrapped requests', () => {
+        const sink = vi.fn()
+        const logRequest = new LoggyLogger().httpLogger({
+            requestIdHeader: false,
+            generateRequestId: () => 'custom',
+            ignore: req => req.url === '/health',
+        }, { transports: [functionTransport(sink)] })
+        const fakeExchange = (url: string) => {
+            const res = Object.assign(new EventEmitter(), { statusCode: 200, headersSent: false, writableFinished: true, setHeader: vi.fn(), getHeader: () => undefined })
+            return { req: { raw: { method: 'GET', url, headers: {} } }, res: { raw: res } } as any
+        }
+        const next = vi.fn()
+
+        const health = fakeExchange('/health')
+        logRequest(health.req, health.res, next)
+        health.res.raw.emit('finish')
+
+        const page = fakeExchange('/page')
+        logRequest(page.req, page.res, next)
+        page.res.raw.emit('finish')
+        page.res.raw.emit('close')
+
+        expect(next).toHaveBeenCalledTimes(2)
+        expect(sink).toHaveBeenCalledTimes(1)
+        expect(sink.mock.calls[0][0].boundDatas).toEqual({ requestId: 'custom' })
+        expect(page.res.raw.setHeader).not.toHaveBeenCalled()
+    })
+
+    it('should log aborted requests as warnings', () => {
+        const sink = vi.fn()
+        const logRequest = new LoggyLogger().httpLogger({}, { transports: [functionTransport(sink)] })
+        const res = Object.assign(new EventEmitter(), { statusCode: 200, headersSent: false, writableFinished: false, setHeader: vi.fn(), getHeader: () => undefined })
+        logRequest({ method: 'POST', url: '/upload', headers: {} } as any, res as any)
+        res.emit('close')
+        expect(sink.mock.calls[0][0].type).toBe('warn')
+        expect(sink.mock.calls[0][0].args[0]).toMatch(/^POST \/upload aborted after [\d.]+ms$/)
+    })
+})
+
+// ============================================================================
+// CAPTURE CONSOLE
+// ============================================================================
+describe('captureConsole', () => {
+    let restore: (() => void) | undefined
+
+    beforeEach(() => {
+        setupConsoleMock()
+    })
+
+    afterEach(() => {
+        restore?.()
+        restoreConsole()
+    })
+
+    it('should route console methods to the matching log types', () => {
+        const sink = vi.fn()
+        restore = new LoggyLogger().captureConsole({}, { level: LEVELS['8_VERBOSE'], transports: [functionTransport(sink)] })
+        console.log('plain')
+        console.info('info')
+        console.warn('careful')
+        console.error('broken', { code: 1 })
+        console.debug('details')
+        expect(sink.mock.calls.map(c => [c[0].type, c[0].namespace, ...c[0].args])).toEqual([
+            ['log', 'console', 'plain'],
+            ['info', 'console', 'info'],
+            ['warn', 'console', 'careful'],
+            ['error', 'console', 'broken', { code: 1 }],
+            ['debug', 'console', 'details'],
+        ])
+        expect(consoleOutput).toEqual([])
+    })
+
+    it('should not capture its own console output', () => {
+        const loggy = new LoggyLogger()
+        restore = loggy.captureConsole({}, { colors: false })
+        const appSink = vi.fn()
+        const app = loggy.createLogger({ colors: false, transports: [consoleTransport(), functionTransport(appSink)] })
+        console.log('from a library')
+        app.info('from the app')
+        expect(consoleOutput).toHaveLength(2)
+        expect(consoleOutput[0]).toContain('from a library')
+        expect(consoleOutput[1]).toContain('from the app')
+        expect(appSink).toHaveBeenCalledTimes(1)
+    })
+
+    it('should restore the console', () => {
+        const mockedLog = console.log
+        const originalWarn = console.warn
+        restore = new LoggyLogger().captureConsole({}, { transports: [] })
+        expect(console.log).not.toBe(mockedLog)
+        restore()
+        expect(console.log).toBe(mockedLog)
+        expect(console.warn).toBe(originalWarn)
+        console.log('after restore')
+        expect(consoleOutput).toEqual(['after restore'])
+    })
+
+    it('should replace a previous capture', () => {
+        const first = vi.fn(), second = vi.fn()
+        const loggy = new LoggyLogger()
+        const restoreFirst = loggy.captureConsole({}, { transports: [functionTransport(first)] })
+        restore = loggy.captureConsole({}, { transports: [functionTransport(second)] })
+        restoreFirst()
+        console.log('hello')
+        expect(first).not.toHaveBeenCalled()
+        expect(second).toHaveBeenCalledTimes(1)
+    })
+
+    it('should capture stream writes line by line when enabled', () => {
+        const sink = vi.fn()
+        restore = new LoggyLogger().captureConsole({ streams: true }, { transports: [functionTransport(sink)] })
+        process.stdout.write('first line\nsecond ')
+        process.stdout.write('line\n')
+        process.stderr.write(Buffer.from('failure\npartial'))
+        restore()
+        restore = undefined
+        expect(sink.mock.calls.map(c => [c[0].type, c[0].args[0]])).toEqual([
+            ['info', 'first line'],
+            ['info', 'second line'],
+            ['error', 'failure'],
+            ['error', 'partial'],
+        ])
+    })
+})
+
+// ============================================================================
+// HANDLE EXCEPTIONS
+// ============================================================================
+describe('handleExceptions', () => {
+    // Latest handler of each event, and every handler registered
+    let handlers: Record<string, (...args: unknown[]) => void>
+    let listeners: Array<[string, (...args: unknown[]) => void]>
+    let exit: ReturnType<typeof vi.spyOn>
+
+    beforeEach(() => {
+        handlers = {}
+        listeners = []
+        // Handlers are called by the tests, the test runner keeps its own process handlers
+        vi.spyOn(process, 'on').mockImplementation(((event: string, fn: (...args: unknown[]) => void) => { handlers[event] = fn; listeners.push([event, fn]); return process }) as any)
+        vi.spyOn(process, 'off').mockImplementation(((event: string, fn: (...args: unknown[]) => void) => {
+            if (handlers[event] === fn) delete handlers[event]
+            listeners = listeners.filter(([e, f]) => e !== event || f !== fn)
+            return process
+        }) as any)
+        exit = vi.spyOn(process, 'exit').mockImplementation((() => {}) as any)
+    })
+
+    afterEach(() => {
+        vi.restoreAllMocks()
+    })
+
+    it('should log exceptions and rejections at fatal level and warnings at warn level', () => {
+        const sink = vi.fn()
+        const remove = new LoggyLogger().handleExceptions({ exitOnError: false }, { transports: [functionTransport(sink)] })
+        const err = new Error('boom'), warning = Object.assign(new Error('deprecated API'), { name: 'DeprecationWarning' })
+        handlers.uncaughtException(err, 'uncaughtException')
+        handlers.unhandledRejection('no reason')
+        handlers.warning(warning)
+        expect(sink.mock.calls.map(c => [c[0].type, c[0].namespace, ...c[0].args])).toEqual([
+            ['fatal', 'process', 'Uncaught exception', err],
+            ['fatal', 'process', 'Unhandled rejection', 'no reason'],
+            ['warn', 'process', warning],
+        ])
+        expect(exit).not.toHaveBeenCalled()
+        remove()
+        expect(handlers).toEqual({})
+    })
+
+    it('should keep the handlers of each instance, replacing them on the same instance', () => {
+        const sinkA = vi.fn(), sinkB = vi.fn()
+        const a = new LoggyLogger(), b = new LoggyLogger()
+        a.handleExceptions({ exitOnError: false }, { transports: [functionTransport(() => {})] })
+        const removeA = a.handleExceptions({ exitOnError: false }, { transports: [functionTransport(sinkA)] })
+        const removeB = b.handleExceptions({ exitOnError: false }, { transports: [functionTransport(sinkB)] })
+        const onException = listeners.filter(([event]) => event === 'uncaughtException')
+        expect(onException).toHaveLength(2)
+        onException.forEach(([, fn]) => fn(new Error('boom')))
+        expect(sinkA).toHaveBeenCalledTimes(1)
+        expect(sinkB).toHaveBeenCalledTimes(1)
+        removeA()
+        removeA()
+        expect(listeners.filter(([event]) => event === 'uncaughtException')).toHaveLength(1)
+        removeB()
+        expect(listeners).toEqual([])
+    })
+
+    it('should flush the outputs before exiting', async () => {
+        let flushed!: () => void
+        const flush = vi.fn(() => new Promise<void>(resolve => { flushed = resolve }))
+        const loggy = new LoggyLogger()
+        loggy.handleExceptions({}, { transports: [{ write: () => {}, flush }] })
+        handlers.uncaughtException(new Error('boom'))
+        handlers.uncaughtException(new Error('while exiting'))
+        await vi.waitFor(() => expect(flush).toHaveBeenCalled())
+        expect(exit).not.toHaveBeenCalled()
+        flushed()
+        await vi.waitFor(() => expect(exit).toHaveBeenCalledWith(1))
+        expect(exit).toHaveBeenCalledTimes(1)
+    })
+
+    it('should exit after flushTimeoutMs when the flush hangs', async () => {
+        new LoggyLogger().handleExceptions({ flushTimeoutMs: 10 }, { transports: [{ write: () => {}, flush: () => new Promise(() => {}) }] })
+        handlers.unhandledRejection(new Error('lost'))
+        await vi.waitFor(() => expect(exit).toHaveBeenCalledWith(1))
+    })
+
+    it('should deliver the fatal record to dashboard clients before exiting', async () => {
+        vi.spyOn(console, 'warn').mockImplementation(() => {})
+        const loggy = new LoggyLogger()
+        loggy.startDashboard(0)
+        const server = loggy.getDashboardServer()!.server
+        await new Promise(resolve => server.once('listening', resolve))
+        const ws = new WebSocket(`ws://127.0.0.1:${loggy.getDashboardPort()}`)
+        await new Promise(resolve => ws.once('open', resolve))
+        const received = new Promise<any>(resolve => ws.once('message', data => resolve(JSON.parse(data.toString()))))
+
+        loggy.handleExceptions({}, { transports: [] })
+        handlers.uncaughtException(new Error('crash'))
+        await vi.waitFor(() => expect(exit).toHaveBeenCalled())
+        const message = await received
+        expect(message.type).toBe('log-fatal')
+        expect(message.argList[1]).toMatchObject({ _type: 'error', message: 'crash' })
+
+        ws.close()
+        loggy.stopDashboard()
+    })
+})
+
+// ============================================================================
+// FLUSH AND CLOSE
+// ============================================================================
+describe('flush and close', () => {
+    afterEach(() => {
+        vi.restoreAllMocks()
+    })
+
+    it('should output held repeat counts and wait for the transports', async () => {
+        let flushed = false
+        const sink = vi.fn()
+        const transport = { write: sink, flush: async () => { await new Promise(resolve => setTimeout(resolve, 5)); flushed = true } }
+        const loggy = new LoggyLogger()
+        const logger = loggy.createLogger({ dedup: true, transports: [transport] })
+        logger.info('same')
+        logger.info('same')
+        await loggy.flush()
+        expect(flushed).toBe(true)
+        expect(sink.mock.calls.map(c => c[0].args)).toEqual([['same'], ['same', '(repeated ×1)']])
+    })
+
+    it('should close the transports once', async () => {
+        const close = vi.fn(async () => {})
+        const transport = { write: () => {}, close }
+        const loggy = new LoggyLogger()
+        loggy.createLogger({ transports: [transport] })
+        loggy.createLogger({ transports: [transport] })
+        await loggy.close()
+        expect(close).toHaveBeenCalledTimes(1)
+    })
+
+    it('should write the last lines of a file transport before resolving', async () => {
+        const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'loggy-close-'))
+        const filename = path.join(dir, 'app.log')
+        const loggy = new LoggyLogger()
+        loggy.createLogger({ transports: [fileTransport({ filename })] }).info('last words')
+        await loggy.close()
+        expect(fs.readFileSync(filename, 'utf8')).toContain('last words')
+        fs.rmSync(dir, { recursive: true, force: true })
+    })
+
+    it('should deliver queued frames, close clients with 1001 and wait for the server to stop', async () => {
+        vi.spyOn(console, 'warn').mockImplementation(() => {})
+        const loggy = new LoggyLogger()
+        loggy.startDashboard(0)
+        const server = loggy.getDashboardServer()!.server
+        await new Promise(resolve => server.once('listening', resolve))
+        const ws = new WebSocket(`ws://127.0.0.1:${loggy.getDashboardPort()}`)
+        await new Promise(resolve => ws.once('open', resolve))
+        const messages: string[] = []
+        ws.on('message', data => messages.push(JSON.parse(data.toString()).argList[0]))
+        const closed = new Promise<number>(resolve => ws.once('close', code => resolve(code)))
+
+        const logger = loggy.createLogger({ transports: [] })
+        for (let i = 0; i < 50; i++) logger.info(`line ${i}`)
+        await loggy.close()
+
+        expect(server.listening).toBe(false)
+        expect(loggy.getDashboardServer()).toBeNull()
+        expect(await closed).toBe(1001)
+        expect(messages).toHaveLength(50)
+        expect(messages[49]).toBe('line 49')
+    })
+
+    it('should free the port right away when stopping the dashboard', async () => {
+        vi.spyOn(console, 'warn').mockImplementation(() => {})
+        const loggy = new LoggyLogger()
+        loggy.startDashboard(0)
+        const first = loggy.getDashboardServer()!.server
+        await new Promise(resolve => first.once('listening', resolve))
+        const port = Number(loggy.getDashboardPort())
+        const ws = new WebSocket(`ws://127.0.0.1:${port}`)
+        await new Promise(resolve => ws.once('open', resolve))
+
+        // Not awaited: the client close handshake is still running when the dashboard restarts
+        const stopped = loggy.stopDashboard()
+        loggy.startDashboard(port)
+        const second = loggy.getDashboardServer()!.server
+        await new Promise((resolve, reject) => { second.once('listening', resolve); second.once('error', reject) })
+        await stopped
+        expect(first.listening).toBe(false)
+        await loggy.stopDashboard()
+    })
+})
+
+// ============================================================================
+// ISOLATED INSTANCES
+// ============================================================================
+describe('isolated instances', () => {
+    it('should keep the config of each instance to itself', () => {
+        const sinkA = vi.fn(), sinkB = vi.fn()
+        const a = new LoggyLogger({ config: { level: LEVELS['7_DEBUG'], transports: [functionTransport(sinkA)] } })
+        const b = new LoggyLogger({ config: { level: LEVELS['3_WARN'], transports: [functionTransport(sinkB)] } })
+        a.createLogger().debug('a debug')
+        b.createLogger().debug('b debug')
+        b.createLogger().warn('b warn')
+        expect(sinkA.mock.calls.map(c => c[0].args[0])).toEqual(['a debug'])
+        expect(sinkB.mock.calls.map(c => c[0].args[0])).toEqual(['b warn'])
+        expect(Loggy.getConfig().transports).not.toContain(a.getConfig().transports[0])
+        expect(LoggerClass.globalConfig.level).not.toBe(LEVELS['3_WARN'])
+    })
+
+    it('should apply config changes to the existing loggers of the instance only', () => {
+        const sink = vi.fn()
+        const loggy = new LoggyLogger({ config: { transports: [functionTransport(sink)] } })
+        const logger = loggy.createLogger()
+        logger.debug('hidden')
+        loggy.setLevel(LEVELS['7_DEBUG'])
+        logger.debug('shown')
+        expect(sink.mock.calls.map(c => c[0].args[0])).toEqual(['shown'])
+        expect(new LoggyLogger().getLevel()).toBe(LEVELS.DEFAULT)
+    })
+
+    it('should let the default instance and sharedConfig instances share Logger.globalConfig', () => {
+        const previous = { ...LoggerClass.conf.get() }
+        try {
+            const shared = new LoggyLogger({ sharedConfig: true })
+            shared.setLevel(LEVELS['8_VERBOSE'])
+            expect(Loggy.getLevel()).toBe(LEVELS['8_VERBOSE'])
+            expect(LoggerClass.conf.getLevel()).toBe(LEVELS['8_VERBOSE'])
+        } finally {
+            LoggerClass.conf.set(previous)
+        }
+    })
+
+    it('should track logger files and base path per instance on its dashboard', async () => {
+        vi.spyOn(console, 'warn').mockImplementation(() => {})
+        const a = new LoggyLogger({ config: { basePath: '/project/a' } })
+        const b = new LoggyLogger()
+        a.createLogger()
+        a.startDashboard(0)
+        const server = a.getDashboardServer()!.server
+        await new Promise(resolve => server.once('listening', resolve))
+
+        const response = await (await fetch(`http://127.0.0.1:${a.getDashboardPort()}/api/logFiles`)).json()
+        expect(response).toEqual({ files: [path.resolve(__filename)], basePath: path.resolve('/project/a') })
+        expect(b.getLogFiles()).toEqual([])
+        expect(b.getDashboardServer()).toBeNull()
+        await a.stopDashboard()
+        vi.restoreAllMocks()
+    })
+})
+
+// ============================================================================
+// TIMERS
+// ============================================================================
+describe('timers', () => {
+    const setup = (config: Parameters<LoggyLogger['createLogger']>[0] = {}) => {
+        const loggy = new LoggyLogger()
+        const sink = vi.fn()
+        const logger = loggy.createLogger({ level: LEVELS['7_DEBUG'], transports: [functionTransport(sink)], ...config })
+        const records = () => sink.mock.calls.map(c => c[0])
+        return { loggy, logger, sink, records }
+    }
+
+    afterEach(() => vi.restoreAllMocks())
+
+    it('should log the duration of time() and timeEnd() at info level', () => {
+        const hrtime = vi.spyOn(process.hrtime, 'bigint').mockReturnValueOnce(1_000_000n).mockReturnValueOnce(13_345_678n)
+        const { logger, records } = setup()
+        logger.time('query')
+        logger.timeEnd('query')
+        expect(hrtime).toHaveBeenCalledTimes(2)
+        expect(records()).toMatchObject([{ type: 'info', args: ['query'], durationMs: 12.346 }])
+    })
+
+    it('should log the given arguments instead of the label', () => {
+        const { logger, records } = setup()
+        logger.time()
+        logger.timeEnd('default', 'rows loaded', { rows: 3 })
+        expect(records()[0].args).toEqual(['rows loaded', { rows: 3 }])
+        expect(records()[0].durationMs).toBeGreaterThanOrEqual(0)
+    })
+
+    it('should warn about unknown and already started timers', () => {
+        const warn = vi.spyOn(console, 'warn').mockImplementation(() => {})
+        const { logger, sink } = setup()
+        logger.timeEnd('missing')
+        logger.time('twice')
+        logger.time('twice')
+        expect(warn.mock.calls.map(c => c[0])).toEqual(['[LoggyLogger] Timer "missing" does not exist', '[LoggyLogger] Timer "twice" already exists'])
+        logger.timeEnd('twice')
+        logger.timeEnd('twice')
+        expect(sink).toHaveBeenCalledTimes(1)
+        expect(warn).toHaveBeenCalledTimes(3)
+    })
+
+    it('should share timers with bound interfaces, which keep their datas', () => {
+        const { logger, records } = setup()
+        logger.time('job')
+        logger.bind({ jobId: 7 }).timeEnd('job')
+        expect(records()[0]).toMatchObject({ boundDatas: { jobId: 7 }, durationMs: expect.any(Number) })
+    })
+
+    it('should log at any level with the time elapsed since startTimer()', () => {
+        vi.spyOn(process.hrtime, 'bigint').mockReturnValueOnce(0n).mockReturnValueOnce(5_000_000n).mockReturnValueOnce(1_500_000_000n)
+        const { logger, records } = setup()
+        const done = logger.bind({ query: 'users' }).startTimer()
+        done.debug('first row')
+        done.warn('query finished')
+        expect(records()).toMatchObject([
+            { type: 'debug', args: ['first row'], durationMs: 5, boundDatas: { query: 'users' } },
+            { type: 'warn', args: ['query finished'], durationMs: 1500 },
+        ])
+    })
+
+    it('should output the duration in every format', () => {
+        const lines: string[] = []
+        const transports = [functionTransport((_e, l) => lines.push(...l))]
+        for (const format of ['pretty', 'json', 'logfmt'] as const) {
+            vi.spyOn(process.hrtime, 'bigint').mockReturnValueOnce(0n).mockReturnValueOnce(1_234_500_000n)
+            setup({ format, transports, colors: false }).logger.startTimer().info('done')
+        }
+        expect(lines[0]).toMatch(/done \(1\.23s\)$/)
+        expect(JSON.parse(lines[1])).toMatchObject({ message: 'done', durationMs: 1234.5 })
+        expect(lines[2]).toContain('message=done durationMs=1234.5')
+    })
+
+    it('should send the duration to the dashboard', async () => {
+        const { loggy, logger } = setup()
+        const broadcast = await spyOnDashboard(loggy)
+        logger.startTimer().info('done')
+        expect(broadcast.mock.calls[0][6]).toEqual({ durationMs: expect.any(Number) })
+    })
+
+    it('should not log levels disabled in production mode', () => {
+        const { loggy, logger, sink } = setup()
+        loggy.enableProduction({ dashboard: false })
+        const done = logger.startTimer()
+        logger.time('hidden')
+        logger.timeEnd('hidden')
+        done.info('hidden')
+        done.error('shown')
+        expect(sink.mock.calls.map(c => c[0].args[0])).toEqual(['shown'])
+        loggy.disableProduction()
+    })
+})
+
+// ============================================================================
+// ENVIRONMENT VARIABLES
+// ============================================================================
+describe('environment variables', () => {
+    let previousConfig: ReturnType<typeof LoggerClass.conf.get>
+    let warn: ReturnType<typeof vi.spyOn>
+
+    beforeEach(() => {
+        previousConfig = { ...LoggerClass.conf.get() }
+        warn = vi.spyOn(console, 'warn').mockImplementation(() => {})
+    })
+
+    afterEach(() => {
+        vi.unstubAllEnvs()
+        warn.mockRestore()
+        LoggerClass.conf.set(previousConfig)
+    })
+
+    it('should read level, colors, format and namespaces', () => {
+        vi.stubEnv('LOGGY_LEVEL', 'debug')
+        vi.stubEnv('LOGGY_COLORS', 'false')
+        vi.stubEnv('LOGGY_FORMAT', 'json')
+        vi.stubEnv('LOGGY_DEBUG', 'db:*')
+        const loggy = new LoggyLogger()
+        expect(loggy.getLevel()).toBe(LEVELS['7_DEBUG'])
+        expect(loggy.getConfig()).toMatchObject({ colors: false, format: 'json', namespaces: 'db:*' })
+        expect(warn).not.toHaveBeenCalled()
+    })
+
+    it('should accept numeric levels', () => {
+        vi.stubEnv('LOGGY_LEVEL', '80')
+        expect(new LoggyLogger().getLevel()).toBe(80)
+    })
+
+    it('should let code config take precedence', () => {
+        vi.stubEnv('LOGGY_LEVEL', 'silly')
+        vi.stubEnv('LOGGY_COLORS', 'true')
+        const loggy = new LoggyLogger({ config: { level: LEVELS['3_WARN'] } })
+        expect(loggy.getLevel()).toBe(LEVELS['3_WARN'])
+        expect(loggy.getConfig().colors).toBe(true)
+    })
+
+    it('should warn about invalid values and ignore them', () => {
+        vi.stubEnv('LOGGY_LEVEL', 'loud')
+        vi.stubEnv('LOGGY_COLORS', 'maybe')
+        vi.stubEnv('LOGGY_FORMAT', 'xml')
+        vi.stubEnv('LOGGY_DASHBOARD_PORT', '99999')
+        vi.stubEnv('LOGGY_PRODUCTION', 'sure')
+        const loggy = new LoggyLogger()
+        expect(warn).toHaveBeenCalledTimes(5)
+        expect(warn.mock.calls[0][0]).toContain('LOGGY_LEVEL="loud"')
+        expect(loggy.getLevel()).toBe(LEVELS.DEFAULT)
+        expect(loggy.getConfig().format).toBe('pretty')
+        expect(loggy.isProduction()).toBe(false)
+    })
+
+    it('should enable production mode', () => {
+        vi.stubEnv('LOGGY_PRODUCTION', '1')
+        expect(new LoggyLogger().isProduction()).toBe(true)
+        expect(new LoggyLogger({ production: false }).isProduction()).toBe(false)
+    })
+
+    it('should use the dashboard port', async () => {
+        vi.stubEnv('LOGGY_DASHBOARD_PORT', '0')
+        const loggy = new LoggyLogger()
+        loggy.startDashboard()
+        const server = loggy.getDashboardServer()!.server
+        await new Promise(resolve => server.once('listening', resolve))
+        expect(loggy.getDashboardPort()).not.toBe(11000)
+        loggy.stopDashboard()
+    })
+})
+
+// ============================================================================
+// FILE TRANSPORT
+// ============================================================================
+describe('fileTransport', () => {
+    let dir: string
+
+    beforeEach(() => {
+        dir = fs.mkdtempSync(path.join(os.tmpdir(), 'loggy-'))
+    })
+
+    afterEach(() => {
+        vi.useRealTimers()
+        fs.rmSync(dir, { recursive: true, force: true })
+    })
+
+    it('should write plain lines without colors', async () => {
+        const transport = fileTransport({ filename: path.join(dir, 'app.log') })
+        const logger = Loggy.createLogger({ level: LEVELS['5_INFO'], colors: true, transports: [transport] })
+        logger.info('to file')
+        logger.warn('line1\nline2')
+        await transport.close!()
+        const content = fs.readFileSync(path.join(dir, 'app.log'), 'utf8')
+        expect(content).toContain('to file')
+        expect(content).not.toContain('\x1b[')
+        expect(content.trim().split('\n')).toHaveLength(3)
+    })
+
+    it('should write NDJSON when json is enabled', async () => {
+        const transport = fileTransport({ filename: path.join(dir, 'app.ndjson'), json: true })
+        const logger = Loggy.createLogger({ level: LEVELS['5_INFO'], transports: [transport] }, { service: 'api' })
+        logger.info('hello', { id: 1 })
+        logger.error('multi\nline')
+        await transport.close!()
+        const lines = fs.readFileSync(path.join(dir, 'app.ndjson'), 'utf8').trim().split('\n').map(l => JSON.parse(l))
+        expect(lines).toHaveLength(2)
+        expect(lines[0]).toMatchObject({ type: 'info', level: LEVELS['5_INFO'], message: 'hello', args: [{ id: 1 }], boundDatas: { service: 'api' } })
+        expect(lines[1].message).toBe('multi\nline')
+    })
+
+    it('should rotate by size and gzip rotated files', async () => {
+        const transport = fileTransport({ filename: path.join(dir, 'app.log'), maxSize: 100 })
+        const logger = Loggy.createLogger({ level: LEVELS['5_INFO'], transports: [transport] })
+        for (let i = 0; i < 5; i++) logger.info('x'.repeat(60))
+        await transport.close!()
+        const files = fs.readdirSync(dir)
+        const rotated = files.filter(f => f.endsWith('.log.gz'))
+        expect(rotated).toHaveLength(4)
+        expect(files.filter(f => /^app\.\d{4}-\d{2}-\d{2}\.\d+\.log$/.test(f))).toHaveLength(0)
+        const unzipped = zlib.gunzipSync(fs.readFileSync(path.join(dir, rotated[0]))).toString()
+        expect(unzipped).toContain('x'.repeat(60))
+    })
+
+    it('should keep only maxFiles rotated files', async () => {
+        const transport = fileTransport({ filename: path.join(dir, 'app.log'), maxSize: 100, compress: false, maxFiles: 2 })
+        const logger = Loggy.createLogger({ level: LEVELS['5_INFO'], transports: [transport] })
+        for (let i = 0; i < 6; i++) logger.info('x'.repeat(60))
+        await transport.close!()
+        const files = fs.readdirSync(dir)
+        expect(files.filter(f => f !== 'app.log')).toHaveLength(2)
+        expect(files).toContain('app.log')
+    })
+
+    it('should rotate daily', async () => {
+        vi.useFakeTimers({ toFake: ['Date'] })
+        vi.setSystemTime(new Date(2024, 0, 1, 12))
+        const transport = fileTransport({ filename: path.join(dir, 'app.log'), daily: true, compress: false })
+        const logger = Loggy.createLogger({ level: LEVELS['5_INFO'], transports: [transport] })
+        logger.info('day one')
+        vi.setSystemTime(new Date(2024, 0, 2, 12))
+        logger.info('day two')
+        await transport.close!()
+        expect(fs.readFileSync(path.join(dir, 'app.2024-01-01.1.log'), 'utf8')).toContain('day one')
+        expect(fs.readFileSync(path.join(dir, 'app.log'), 'utf8')).toContain('day two')
+    })
+})
+
@@ -1,16 +1,36 @@
 import { Logger } from './Logger/index.js'
-import { startServer, DashboardServer, addLogFile, setBasePath } from './server.js'
+import { consoleTransport, streamTransport, functionTransport } from './Logger/transports.js'
+import { fileTransport } from './Logger/fileTransport.js'
+import { createLevel } from './Logger/levels.js'
+import { REDACT_PATTERNS } from './Logger/redact.js'
+import { serializeError } from './Logger/errors.js'
+import { createHttpLogger, HttpMiddleware } from './Logger/http.js'
+import { captureConsole, restoreConsole } from './Logger/console.js'
+import { handleExceptions } from './Logger/exceptions.js'
+import { startServer, DashboardServer } from './server.js'
+import { readEnvOptions } from './Utils/env.js'
+import { resolveSourcePosition } from './Utils/sourceMaps.js'
+import { applyBasePath, findExternalCaller, parseStackLine } from './Utils/stack.js'
+import { elapsedMs } from './Utils/time.js'
 import * as Types from './types/index.js'
 import path from 'node:path'
+import { AsyncLocalStorage } from 'node:async_hooks'
 
 export { Logger, Types }
-export type { DashboardServer }
+export { consoleTransport, streamTransport, functionTransport, fileTransport }
+export { REDACT_PATTERNS }
+export { applyBasePath, serializeError }
+export type { DashboardServer, HttpMiddleware }
 
 // Noop function for disabled features
 const noop = () => {}
 
-// Type for the public logger interface (only log methods)
-export interface LoggerInterface {
+type BoundLogFn = (extraBoundDatas: Record<string, unknown>, ...args: unknown[]) => void
+
+// Type for the public logger interface (only log methods), with one method per custom level
+export type LoggerInterface<L extends string = never> = BaseLoggerInterface<L> & { [K in L]: (...args: unknown[]) => void }
+
+export interface BaseLoggerInterface<L extends string = never> {
     silly: (...args: unknown[]) => void
     verbose: (...args: unknown[]) => void
     debug: (...args: unknown[]) => void
@@ -20,11 +40,25 @@ export interface LoggerInterface {
     warn: (...args: unknown[]) => void
     error: (...args: unknown[]) => void
     fatal: (...args: unknown[]) => void
-    bind: (boundDatas: Record<string, unknown>) => LoggerInterface
+    bind: (boundDatas: Record<string, unknown>) => LoggerInterface<L>
+    /** Logger in the "<namespace>:<name>" namespace. Without config, the same logger is reused for a name */
+    child: (name: string, config?: LoggyConfig) => LoggerInterface<L>
+    /** Start the timer named label (default "default"), ended by timeEnd() */
+    time: (label?: string) => void
+    /** End the timer named label and log at info level, with the label as message unless args are given */
+    timeEnd: (label?: string, ...args: unknown[]) => void
+    /** Start a timer whose log methods carry the time elapsed since */
+    startTimer: () => LoggerTimer<L>
     _instance: Logger
 }
 
+/** Log methods of a timer from startTimer(), attaching durationMs to their records */
+export type LoggerTimer<L extends string = never> = { [K in Exclude<Types.Logger.TLogType, 'unknown'> | L]: (...args: unknown[]) => void }
+
 export interface LoggyConfig {
+    /** Namespace of the logger (createLogger only), e.g. "db:pool" */
+    name?: string
+    namespaces?: string
     level?: number
     colors?: boolean
     emojis?: boolean
@@ -33,20 +67,34 @@ export interface LoggyConfig {
     convertObjects?: boolean
     convertObjectsColorized?: boolean
     convertObjectsDepth?: number
+    showBoundDatas?: boolean
+    boundDatasStyle?: 'keyvalue' | 'inspect'
+    boundDatasKeys?: string[] | null
+    boundDatasMaxLength?: number
     basePath?: string
+    format?: Types.Logger.TLogFormat
+    transports?: Types.Logger.TTransport[]
+    redact?: Types.Logger.TRedactOptions | null
+    rateLimit?: Types.Logger.TRateLimitOptions | null
+    dedup?: boolean | Types.Logger.TDedupOptions
+    serialize?: Types.Logger.TSerializeOptions
+    sourceMaps?: boolean
 }
 
 export interface ProductionConfig {
     dashboard?: boolean
-    logs?: { fatal?: boolean; error?: boolean; warn?: boolean; success?: boolean; info?: boolean; log?: boolean; debug?: boolean; verbose?: boolean, silly?: boolean }
+    logs?: { fatal?: boolean; error?: boolean; warn?: boolean; success?: boolean; info?: boolean; log?: boolean; debug?: boolean; verbose?: boolean, silly?: boolean, [customLevel: string]: boolean | undefined }
     settings?: { colors?: boolean; objectInspect?: boolean; showCallLines?: boolean; basePath?: string }
 }
 
-export interface LoggyOptions {
+export interface LoggyOptions<L extends string = never> {
+    /** Use the static Logger.globalConfig shared with the default Loggy instance, instead of a config of its own */
+    sharedConfig?: boolean
     production?: boolean
     productionConfig?: ProductionConfig
     serverPort?: number
     config?: LoggyConfig
+    levels?: Record<L, Types.Logger.TLevelDefinition>
 }
 
 /**
@@ -63,124 +111,42 @@ function normalizeBasePath(basePath: string): string {
     return path.resolve(normalized)
 }
 
-/**
- * Parse a stack trace line and extract file path and line number.
- * Handles various stack trace formats from different environments.
- * Example output: "myproject/hi.js:5" or "C:/projects/myproject/hi.js:5"
- */
-function parseStackLine(stackLine: string): { filePath: string; lineNumber: number } | null {
-    if (!stackLine) return null
-
-    // Handle various stack trace formats:
-    // V8/Node: "    at functionName (file:///path/to/file.js:10:15)" or "    at file:///path/to/file.js:10:15"
-    // V8/Node: "    at functionName (/path/to/file.js:10:15)" or "    at /path/to/file.js:10:15"
-    // Windows: "    at functionName (C:\path\to\file.js:10:15)"
-
-    let match: RegExpMatchArray | null = null
-
-    // Try file:// URL format first (ESM modules)
-    match = stackLine.match(/file:\/\/\/?([^:]+):(\d+)(?::\d+)?/)
-    if (match) {
-        return { filePath: match[1].replace(/\\/g, '/'), lineNumber: parseInt(match[2], 10) }
-    }
-
-    // Try Windows path format (C:\path\to\file.js:10:15)
-    match = stackLine.match(/([A-Za-z]:[^:]+):(\d+)(?::\d+)?/)
-    if (match) {
-        return { filePath: match[1].replace(/\\/g, '/'), lineNumber: parseInt(match[2], 10) }
-    }
-
-    // Try Unix path format (/path/to/file.js:10:15)
-    match = stackLine.match(/\(([^()]+):(\d+)(?::\d+)?\)/)
-    if (match) {
-        return { filePath: match[1].replace(/\\/g, '/'), lineNumber: parseInt(match[2], 10) }
-    }
-
-    // Try bare path format without parentheses
-    match = stackLine.match(/at\s+([^:]+):(\d+)(?::\d+)?/)
-    if (match) {
-        return { filePath: match[1].replace(/\\/g, '/').trim(), lineNumber: parseInt(match[2], 10) }
-    }
-
-    return null
-}
-
-/**
- * Apply base path transformation to a file path.
- * Removes the base path prefix and replaces it with "./"
- * Works cross-platform using node:path for normalization.
- */
-export function applyBasePath(filePath: string, basePath: string | undefined): string {
-    if (!basePath) return filePath
-
-    // Normalize both paths for cross-platform comparison
-    const normalizedFilePath = path.normalize(filePath).replace(/\\/g, '/')
-    const normalizedBasePath = path.normalize(basePath).replace(/\\/g, '/')
-
-    // Ensure basePath ends without a trailing slash for consistent comparison
-    const basePathClean = normalizedBasePath.endsWith('/')
-        ? normalizedBasePath.slice(0, -1)
-        : normalizedBasePath
-
-    // Check if the file path starts with the base path
-    if (normalizedFilePath.startsWith(basePathClean + '/')) {
-        return './' + normalizedFilePath.slice(basePathClean.length + 1)
-    }
-
-    // Also handle case where paths match exactly (shouldn't happen with files, but be safe)
-    if (normalizedFilePath === basePathClean) {
-        return '.'
-    }
-
-    return filePath
-}
-
-/**
- * Find the external caller from a stack trace.
- * Skips internal module frames and returns the first external caller's location.
- * Works both when running from source and when installed as an NPM package.
- */
-function findExternalCaller(stack: string[], skipFrames: number, modulePatterns: string[], basePath?: string): string {
-    for (let i = skipFrames; i < stack.length; i++) {
-        const line = stack[i]
-
-        // Skip internal Node.js modules (built-in modules)
-        if (line.includes('node:')) continue
-
-        // Skip frames that match any of the module patterns (internal logger files)
-        // This includes node_modules/loggylogger patterns which are handled by modulePatterns
-        const isInternalFrame = modulePatterns.some(pattern => line.includes(pattern))
-        if (isInternalFrame) continue
-
-        // Skip other node_modules (not the loggylogger package itself, which is handled above)
-        // We want to find the actual user code that called the logger
-        if (line.includes('node_modules') && !modulePatterns.some(p => p.includes('node_modules'))) continue
-
-        // Parse the stack line
-        const parsed = parseStackLine(line)
-        if (parsed) {
-            const transformedPath = applyBasePath(parsed.filePath, basePath)
-            return `${transformedPath}:${parsed.lineNumber}`
-        }
-    }
-    return ''
-}
-
-export class LoggyLogger {
+export class LoggyLogger<L extends string = never> {
     private _server: DashboardServer | null = null
     private _production = false
     private _prodConfig: ProductionConfig = {}
     private _basePath?: string
-    private _createdLoggers: Array<{ logger: Logger; updateBasePath: (basePath: string | undefined) => void }> = []
+    // Config of this instance's loggers, undefined when using the shared Logger.globalConfig
+    private _config?: Types.Logger.TLoggyConfig
+    // Files where this instance's loggers have been created, listed on the dashboard
+    private _logFiles = new Set<string>()
+    private _dashboardPort?: number
+    private _hooks: Types.Logger.TLogHook[] = []
+    // Removes the process handlers of handleExceptions()
+    private _removeExceptionHandlers?: () => void
+    // Custom levels of this instance's loggers and dashboard
+    private _levels = new Map<string, Types.Logger.TCustomLevel>()
+    private _context = new AsyncLocalStorage<Record<string, unknown>>()
+    private _createdLoggers: Array<{ logger: Logger; updateBasePath: (basePath: string | undefined) => void; applyProduction: () => void }> = []
+    // Settings changed by production mode, restored when it is disabled
+    private _configBeforeProduction?: { colors: boolean; convertObjects: boolean; showCallLines: boolean; basePath?: string }
 
     readonly LEVELS = Logger.LEVELS
 
-    constructor(options?: LoggyOptions) {
-        if (options?.config) {
-            this.setConfig(options.config)
+    constructor(options?: LoggyOptions<L>) {
+        if (!options?.sharedConfig) this._config = { ...Logger.DEFAULT_CONFIG }
+        if (options?.levels) {
+            this.addLevels(options.levels)
+        }
+        // Environment variables come first so that options given in code take precedence
+        const env = readEnvOptions(process.env, this._levels)
+        const config = { ...env.config, ...options?.config }
+        if (Object.keys(config).length > 0) {
+            this.setConfig(config)
         }
-        if (options?.production) {
-            this.enableProduction(options.productionConfig, options.serverPort)
+        this._dashboardPort = options?.serverPort ?? env.serverPort
+        if (options?.production ?? env.production) {
+            this.enableProduction(options?.productionConfig, this._dashboardPort)
         }
     }
 
@@ -190,15 +156,57 @@ export class LoggyLogger {
             // Normalize basePath to never end with a slash
             const normalizedBasePath = normalizeBasePath(config.basePath)
             this._basePath = normalizedBasePath
-            setBasePath(normalizedBasePath)
             // Update all existing loggers with the new basePath
             this._createdLoggers.forEach(({ updateBasePath }) => updateBasePath(normalizedBasePath))
+            // Loggers also use it for error stack frames
+            config = { ...config, basePath: normalizedBasePath }
         }
-        Logger.conf.set(config)
+        this._updateConfig(config)
+    }
+    setLevel(level: number) { this._updateConfig({ level }) }
+
+    /** Config of this instance's loggers, before their own overrides */
+    getConfig(): Readonly<Types.Logger.TLoggyConfig> { return this._config ?? Logger.globalConfig }
+
+    private _updateConfig(config: Types.Logger.TLoggyConfigOptional) {
+        if (this._config) this._config = { ...this._config, ...config }
+        else Logger.conf.set(config)
+    }
+
+    /**
+     * Add a hook run on every record of this instance's loggers (and their bound interfaces) before output.
+     * Hooks run in the order they were added. See Types.Logger.TLogHook.
+     */
+    use(hook: Types.Logger.TLogHook): this {
+        this._hooks.push(hook)
+        return this
     }
-    setLevel(level: number) { Logger.conf.setLevel(level) }
-    getLevel() { return Logger.conf.getLevel() }
+
+    /**
+     * Run fn with datas merged into the bound datas of every log of this instance's loggers, across async calls.
+     * Nested contexts are merged on top of the enclosing one. Returns what fn returns.
+     */
+    runWithContext<T>(context: Record<string, unknown>, fn: () => T): T {
+        return this._context.run({ ...this._context.getStore(), ...context }, fn)
+    }
+
+    /** Datas of the current runWithContext() call, undefined outside of one */
+    getContext(): Readonly<Record<string, unknown>> | undefined {
+        return this._context.getStore()
+    }
+
+    /**
+     * Register custom log levels of this instance. Its loggers created afterwards get one method per level.
+     * Returns this instance, typed with the new level methods.
+     */
+    addLevels<N extends string>(levels: Record<N, Types.Logger.TLevelDefinition>): LoggyLogger<L | N> {
+        for (const [name, def] of Object.entries<Types.Logger.TLevelDefinition>(levels)) this._levels.set(name, createLevel(name, def))
+        return this as LoggyLogger<L | N>
+    }
+    getLevel() { return this.getConfig().level }
     getBasePath() { return this._basePath }
+    /** Files where this instance's loggers have been created */
+    getLogFiles(): string[] { return [...this._logFiles] }
 
     getDashboardServer() { return this._server }
     getDashboardPort(): string | number | null {
@@ -208,19 +216,46 @@ export class LoggyLogger {
         return actualPort
     }
 
+    /**
+     * Output held repeat counts, wait for the transports to handle everything written so far (see TTransport.flush),
+     * then for the frames sent to the dashboard clients to be written.
+     */
+    async flush(): Promise<void> {
+        await Promise.all(this._createdLoggers.map(({ logger }) => logger.flush()))
+        await Promise.all(this.getConfig().transports.map(transport => transport.flush?.()))
+        await this._server?.flush()
+    }
+
+    /**
+     * Flush, close the transports (files...) and stop the dashboard. Resolves once the dashboard server has stopped.
+     * Loggers should not be used afterwards.
+     */
+    async close(): Promise<void> {
+        await this.flush()
+        const transports = new Set([...this.getConfig().transports, ...this._createdLoggers.flatMap(({ logger }) => logger.localConfig.transports)])
+        await Promise.all([...transports].map(transport => transport.close?.()))
+        await this.stopDashboard()
+    }
+
     // Dashboard
-    startDashboard(port = 11000) {
+    startDashboard(port = this._dashboardPort ?? 11000) {
         if (this._production && !this._prodConfig.dashboard) return
-        if (!this._server) this._server = startServer(port)
+        if (!this._server) this._server = startServer(port, { getLogFiles: () => this.getLogFiles(), getBasePath: () => this._basePath ?? null, getLevels: () => [...this._levels.values()] })
     }
 
-    stopDashboard() {
-        this._server?.close()
+    // Frees the port right away, resolves once the clients are closed and the HTTP server has stopped
+    async stopDashboard(): Promise<void> {
+        const server = this._server
         this._server = null
+        await server?.close()
     }
 
     // Production mode
     enableProduction(config?: ProductionConfig, port?: number) {
+        if (!this._production) {
+            const { colors, convertObjects, showCallLines } = this.getConfig()
+            this._configBeforeProduction = { colors, convertObjects, showCallLines, basePath: this._basePath }
+        }
         this._production = true
         this._prodConfig = {
             ...this._prodConfig,
@@ -229,7 +264,7 @@ export class LoggyLogger {
 
         // Apply production settings
         if (config?.settings) {
-            Logger.conf.set({
+            this._updateConfig({
                 colors: config.settings.colors ?? false,
                 convertObjects: config.settings.objectInspect ?? false,
                 showCallLines: config.settings.showCallLines ?? false
@@ -238,41 +273,77 @@ export class LoggyLogger {
             if (config.settings.basePath !== undefined) {
                 const normalizedBasePath = normalizeBasePath(config.settings.basePath)
                 this._basePath = normalizedBasePath
-                setBasePath(normalizedBasePath)
+                this._updateConfig({ basePath: normalizedBasePath })
                 // Update all existing loggers with the new basePath
                 this._createdLoggers.forEach(({ updateBasePath }) => updateBasePath(normalizedBasePath))
             }
         } else {
-            Logger.conf.set({ colors: false, convertObjects: false, showCallLines: false })
+            this._updateConfig({ colors: false, convertObjects: false, showCallLines: false })
         }
 
+        // Existing loggers and their bound interfaces switch right away
+        this._createdLoggers.forEach(({ applyProduction }) => applyProduction())
+
         // Start dashboard only if enabled
         if (config?.dashboard) this.startDashboard(port)
     }
 
+    // Restores the settings changed by enableProduction() and the disabled log methods
     disableProduction() {
+        if (!this._production) return
         this._production = false
+        const previous = this._configBeforeProduction
+        this._configBeforeProduction = undefined
+        if (previous) {
+            const { basePath, ...settings } = previous
+            this._updateConfig({ ...settings, basePath })
+            if (basePath !== this._basePath) {
+                this._basePath = basePath
+                this._createdLoggers.forEach(({ updateBasePath }) => updateBasePath(basePath))
+            }
+        }
+        this._createdLoggers.forEach(({ applyProduction }) => applyProduction())
     }
 
     isProduction() { return this._production }
 
     // Create logger with production-aware optimizations
-    createLogger(config?: LoggyConfig, boundDatas: Record<string, unknown> = {}): LoggerInterface {
-        const logger = new Logger(config, false, boundDatas)
-        const logMethods: Types.Logger.TLogTypeList = ['fatal', 'error', 'warn', 'success', 'info', 'log', 'debug', 'verbose', 'silly', 'unknown']
-
+    createLogger(config?: LoggyConfig, boundDatas: Record<string, unknown> = {}): LoggerInterface<L> {
         // Determine basePath: per-logger config takes precedence over global (normalize it)
         const loggerBasePath = config?.basePath !== undefined ? normalizeBasePath(config.basePath) : undefined
         let currentBasePath = loggerBasePath ?? this._basePath
 
+        const logger = new Logger(loggerBasePath !== undefined ? { ...config, basePath: loggerBasePath } : config, false, boundDatas)
+        const customLevels = [...this._levels.values()]
+        const logMethods: string[] = ['fatal', 'error', 'warn', 'success', 'info', 'log', 'debug', 'verbose', 'silly', 'unknown', ...customLevels.map(l => l.name)]
+        // Production default: only keep fatal, error and custom levels at least as important as error
+        const enabledByDefault = (method: string) => method === 'fatal' || method === 'error' || customLevels.some(l => l.name === method && l.level <= Logger.LEVELS['2_ERROR'])
+
         // Track the file path where this logger was created
-        const filePath = this._getCallerFilePath()
-        if (filePath) addLogFile(filePath)
+        const filePath = this._getCallerFilePath(logger.localConfig.sourceMaps)
+        if (filePath) this._logFiles.add(filePath)
 
         // Set up broadcast to websocket with external call line
-        logger.setBroadcast((type, callLine, date, args, boundDatas) => {
-            this._server?.broadcast(`log-${type}`, callLine, date, args, boundDatas)
-        })
+        // Namespace: children extend the namespace of their parent with ":"
+        const namespace = config?.name ?? ''
+        logger.setNamespace(namespace)
+        // Children without a config of their own are created once per name, child() can be called per request
+        const children = new Map<string, LoggerInterface<L>>()
+        const createChild = (name: string, childConfig: LoggyConfig | undefined, extraBoundDatas: Record<string, unknown>) => {
+            const childName = namespace ? `${namespace}:${name}` : name
+            if (childConfig) return this.createLogger({ ...config, ...childConfig, name: childName }, { ...boundDatas, ...extraBoundDatas })
+            let child = children.get(name)
+            if (!child) children.set(name, child = this.createLogger({ ...config, name: childName }, boundDatas))
+            return Object.keys(extraBoundDatas).length > 0 ? child.bind(extraBoundDatas) : child
+        }
+
+        logger.setBroadcast((type, callLine, date, args, boundDatas, meta) => {
+            this._server?.broadcast(`log-${type}`, callLine, date, args, boundDatas, logger.getNamespace(), meta, logger.localConfig.serialize)
+        }, () => this._server != null)
+        logger.setHooks(this._hooks)
+        logger.setLevels(this._levels)
+        logger.setConfigSource(() => this.getConfig())
+        logger.setContextGetter(() => this._context.getStore())
 
         // Create a function to update the basePath and refresh the call line getter
         const updateBasePath = (newBasePath: string | undefined) => {
@@ -308,7 +379,7 @@ export class LoggyLogger {
                         '\\loggylogger\\src\\'
                     ]
                     // Skip frames to find the actual caller outside the module
-                    return findExternalCaller(stack, 2, modulePatterns, currentBasePath)
+                    return findExternalCaller(stack, 2, modulePatterns, currentBasePath, logger.localConfig.sourceMaps)
                 } catch {
                     return ''
                 }
@@ -318,40 +389,74 @@ export class LoggyLogger {
         // Set the external call line getter on the logger
         logger.setCallLineGetter(createCallLineGetter())
 
-        // Track this logger so we can update its basePath when global config changes
-        this._createdLoggers.push({ logger, updateBasePath })
+        // Log methods of the bound interfaces, shared by all of them so that production mode applies to existing ones
+        const boundLogs: Record<string, BoundLogFn> = {
+            silly: (extraBoundDatas, ...args) => logger._sillyBound(extraBoundDatas, ...args),
+            verbose: (extraBoundDatas, ...args) => logger._verboseBound(extraBoundDatas, ...args),
+            debug: (extraBoundDatas, ...args) => logger._debugBound(extraBoundDatas, ...args),
+            log: (extraBoundDatas, ...args) => logger._logBound(extraBoundDatas, ...args),
+            info: (extraBoundDatas, ...args) => logger._infoBound(extraBoundDatas, ...args),
+            success: (extraBoundDatas, ...args) => logger._successBound(extraBoundDatas, ...args),
+            warn: (extraBoundDatas, ...args) => logger._warnBound(extraBoundDatas, ...args),
+            error: (extraBoundDatas, ...args) => logger._errorBound(extraBoundDatas, ...args),
+            fatal: (extraBoundDatas, ...args) => logger._fatalBound(extraBoundDatas, ...args),
+        }
+        customLevels.forEach(({ name }) => { boundLogs[name] = (extraBoundDatas, ...args) => logger._emitBound(name, extraBoundDatas, ...args) })
+        // Same methods, with noop for the levels disabled in production mode
+        const activeBoundLogs = { ...boundLogs }
+
+        // Timers started by time(), shared with the bound interfaces
+        const timers = new Map<string, bigint>()
+        const logTimed = (type: string, extraBoundDatas: Record<string, unknown>, durationMs: number, args: unknown[]) => {
+            // Levels disabled in production mode
+            if (activeBoundLogs[type] === noop) return
+            logger._emitTimed(type, extraBoundDatas, durationMs, ...args)
+        }
+        const createTimerMethods = (extraBoundDatas: Record<string, unknown>) => ({
+            time: (label = 'default') => {
+                if (timers.has(label)) return console.warn(`[LoggyLogger] Timer "${label}" already exists`)
+                timers.set(label, process.hrtime.bigint())
+            },
+            timeEnd: (label = 'default', ...args: unknown[]) => {
+                const start = timers.get(label)
+                if (start === undefined) return console.warn(`[LoggyLogger] Timer "${label}" does not exist`)
+                timers.delete(label)
+                logTimed('info', extraBoundDatas, elapsedMs(start), args.length > 0 ? args : [label])
+            },
+            startTimer: () => {
+                const start = process.hrtime.bigint()
+                const timer: Record<string, (...args: unknown[]) => void> = {}
+                logMethods.forEach(method => {
+                    if (method !== 'unknown') timer[method] = (...args: unknown[]) => logTimed(method, extraBoundDatas, elapsedMs(start), args)
+                })
+                return timer as LoggerTimer<L>
+            },
+        })
 
         // Helper to create a bound interface with extra boundDatas (merged on top of logger's boundDatas)
-        const createBoundInterface = (extraBoundDatas: Record<string, unknown>): LoggerInterface => {
-            const boundInterface: LoggerInterface = {
-                silly: (...args: unknown[]) => logger._sillyBound(extraBoundDatas, ...args),
-                verbose: (...args: unknown[]) => logger._verboseBound(extraBoundDatas, ...args),
-                debug: (...args: unknown[]) => logger._debugBound(extraBoundDatas, ...args),
-                log: (...args: unknown[]) => logger._logBound(extraBoundDatas, ...args),
-                info: (...args: unknown[]) => logger._infoBound(extraBoundDatas, ...args),
-                success: (...args: unknown[]) => logger._successBound(extraBoundDatas, ...args),
-                warn: (...args: unknown[]) => logger._warnBound(extraBoundDatas, ...args),
-                error: (...args: unknown[]) => logger._errorBound(extraBoundDatas, ...args),
-                fatal: (...args: unknown[]) => logger._fatalBound(extraBoundDatas, ...args),
+        const createBoundInterface = (extraBoundDatas: Record<string, unknown>): LoggerInterface<L> => {
+            const boundInterface = {
+                silly: (...args: unknown[]) => activeBoundLogs.silly(extraBoundDatas, ...args),
+                verbose: (...args: unknown[]) => activeBoundLogs.verbose(extraBoundDatas, ...args),
+                debug: (...args: unknown[]) => activeBoundLogs.debug(extraBoundDatas, ...args),
+                log: (...args: unknown[]) => activeBoundLogs.log(extraBoundDatas, ...args),
+                info: (...args: unknown[]) => activeBoundLogs.info(extraBoundDatas, ...args),
+                success: (...args: unknown[]) => activeBoundLogs.success(extraBoundDatas, ...args),
+                warn: (...args: unknown[]) => activeBoundLogs.warn(extraBoundDatas, ...args),
+                error: (...args: unknown[]) => activeBoundLogs.error(extraBoundDatas, ...args),
+                fatal: (...args: unknown[]) => activeBoundLogs.fatal(extraBoundDatas, ...args),
                 bind: (moreBoundDatas: Record<string, unknown>) => createBoundInterface({ ...extraBoundDatas, ...moreBoundDatas }),
+                child: (name: string, childConfig?: LoggyConfig) => createChild(name, childConfig, extraBoundDatas),
+                ...createTimerMethods(extraBoundDatas),
                 _instance: logger
-            }
-
-            // In production mode, override disabled methods with noop
-            if (this._production) {
-                const logs = this._prodConfig.logs ?? {}
-                logMethods.forEach(method => {
-                    if (method === 'unknown') return
-                    const enabled = logs[method as keyof typeof logs] ?? (method === 'fatal' || method === 'error')
-                    if (!enabled) boundInterface[method] = noop
-                })
-            }
-
+            } as LoggerInterface<L>
+            const boundMethods = boundInterface as unknown as Record<string, (...args: unknown[]) => void>
+            customLevels.forEach(({ name }) => { boundMethods[name] = (...args: unknown[]) => activeBoundLogs[name](extraBoundDatas, ...args) })
             return boundInterface
         }
 
         // Build the public interface - only expose log methods
-        const publicInterface: LoggerInterface = {
+        const publicInterface = {
             silly: (...args: unknown[]) => logger.silly(...args),
             verbose: (...args: unknown[]) => logger.verbose(...args),
             debug: (...args: unknown[]) => logger.debug(...args),
@@ -362,24 +467,71 @@ export class LoggyLogger {
             error: (...args: unknown[]) => logger.error(...args),
             fatal: (...args: unknown[]) => logger.fatal(...args),
             bind: (extraBoundDatas: Record<string, unknown>) => createBoundInterface(extraBoundDatas),
+            child: (name: string, childConfig?: LoggyConfig) => createChild(name, childConfig, {}),
+            ...createTimerMethods({}),
             _instance: logger
-        }
-
-        // In production mode, override disabled methods with noop
-        if (this._production) {
+        } as LoggerInterface<L>
+        const publicMethods = publicInterface as unknown as Record<string, (...args: unknown[]) => void>
+        customLevels.forEach(({ name }) => { publicMethods[name] = (...args: unknown[]) => logger.emit(name, ...args) })
+        const publicLogs = { ...publicMethods }
+
+        // Swap the methods of the levels disabled in production mode with noop, or put them all back.
+        // Disabled levels cost nothing, and enabled ones never check the mode.
+        const applyProduction = () => {
             const logs = this._prodConfig.logs ?? {}
             logMethods.forEach(method => {
                 if (method === 'unknown') return
-                const enabled = logs[method as keyof typeof logs] ?? (method === 'fatal' || method === 'error')
-                if (!enabled) publicInterface[method] = noop
+                const disabled = this._production && !(logs[method] ?? enabledByDefault(method))
+                publicMethods[method] = disabled ? noop : publicLogs[method]
+                activeBoundLogs[method] = disabled ? noop : boundLogs[method]
             })
         }
+        applyProduction()
+
+        // Track this logger so we can update its basePath and production mode when the instance config changes
+        this._createdLoggers.push({ logger, updateBasePath, applyProduction })
 
         return publicInterface
     }
 
+    /**
+     * Request logging middleware for node:http, Express and Fastify-style handlers, built on a logger named "http" by default.
+     * Logs method, URL, status, duration and content length of each request, at error level for 5xx and warn for 4xx.
+     * The request id is bound to the line and, through runWithContext(), to every log emitted by next.
+     */
+    httpLogger(options?: Types.Logger.THttpLoggerOptions, config?: LoggyConfig): HttpMiddleware {
+        const logger = this.createLogger({ name: 'http', ...config })
+        return createHttpLogger(logger, (context, fn) => this.runWithContext(context, fn), options)
+    }
+
+    /**
+     * Reroute console.* calls (console.error to error, console.warn to warn...) into a logger named "console" by default,
+     * so that output of third-party code reaches the transports and the dashboard. Returns a function restoring the console.
+     */
+    captureConsole(options?: Types.Logger.TCaptureConsoleOptions, config?: LoggyConfig): () => void {
+        return captureConsole(this.createLogger({ name: 'console', ...config }), options)
+    }
+
+    /** Restore the console patched by captureConsole() */
+    restoreConsole() { restoreConsole() }
+
+    /**
+     * Log uncaught exceptions and unhandled rejections at fatal level, and process warnings at warn level,
+     * with a logger named "process" by default. On errors, the output and the dashboard clients are flushed before exiting.
+     * Calling it again replaces the handlers of this instance, other instances keep theirs. Returns a function removing the handlers.
+     */
+    handleExceptions(options?: Types.Logger.THandleExceptionsOptions, config?: LoggyConfig): () => void {
+        this._removeExceptionHandlers?.()
+        const remove = handleExceptions(this.createLogger({ name: 'process', ...config }), () => this.flush(), options)
+        this._removeExceptionHandlers = remove
+        return () => {
+            remove()
+            if (this._removeExceptionHandlers === remove) this._removeExceptionHandlers = undefined
+        }
+    }
+
     // Get the file path of the caller (for tracking where loggers are created)
-    private _getCallerFilePath(): string | null {
+    private _getCallerFilePath(sourceMaps: boolean): string | null {
         try {
             const stack = (new Error()).stack?.split('\n') || []
             // Patterns to identify frames from within this NPM package
@@ -409,7 +561,8 @@ export class LoggyLogger {
 
                 const parsed = parseStackLine(line)
                 if (parsed) {
-                    return path.resolve(parsed.filePath)
+                    const position = (sourceMaps && resolveSourcePosition(parsed.filePath, parsed.lineNumber, parsed.column)) || parsed
+                    return path.resolve(position.filePath)
                 }
             }
         } catch {}
@@ -417,8 +570,8 @@ export class LoggyLogger {
     }
 }
 
-// Default instance
-const Loggy = new LoggyLogger()
+// Default instance, sharing Logger.globalConfig as it always did
+const Loggy = new LoggyLogger({ sharedConfig: true })
 
 export default Loggy
 export { Loggy }
@@ -3,30 +3,21 @@ import { WebSocketServer, WebSocket } from 'ws'
 import { readFileSync } from 'node:fs'
 import { join, dirname } from 'node:path'
 import { fileURLToPath } from 'node:url'
+import type { BroadcastMeta } from './Logger/index.js'
+import { JSONBigInt } from './Utils/JSONBigInt.js'
+import type { TCustomLevel, TSerializeOptions } from './types/Logger.js'
 
 const __dirname = dirname(fileURLToPath(import.meta.url))
 const publicDir = join(__dirname, '..', 'public')
 
-// Track file paths where loggers have been created (unique set)
-const logFiles = new Set<string>()
-
-// Track the configured basePath
-let configuredBasePath: string | null = null
-
-export function addLogFile(filePath: string) {
-    logFiles.add(filePath)
-}
-
-export function getLogFiles(): string[] {
-    return Array.from(logFiles)
-}
-
-export function setBasePath(basePath: string | undefined) {
-    configuredBasePath = basePath ?? null
-}
-
-export function getBasePath(): string | null {
-    return configuredBasePath
+/** What the dashboard shows besides the logs, provided by the LoggyLogger instance owning it */
+export interface DashboardSource {
+    /** Files where loggers have been created */
+    getLogFiles: () => string[]
+    /** Configured base path, file paths under it are shown relative */
+    getBasePath: () => string | null
+    /** Custom levels, listed with their badge colors */
+    getLevels: () => TCustomLevel[]
 }
 
 const MIME: Record<string, string> = {
@@ -48,12 +39,20 @@ function serveFile(res: ServerResponse, path: string) {
 export interface DashboardServer {
     server: Server
     wss: WebSocketServer
-    broadcast: (type: string, callLine: string, date: Date, args: unknown[], boundData?: unknown) => void
-    close: () => void
+    broadcast: (type: string, callLine: string, date: Date, args: unknown[], boundData?: unknown, namespace?: string, meta?: BroadcastMeta, serialize?: TSerializeOptions) => void
+    /** Resolves once the frames sent so far have been written to every client socket */
+    flush: () => Promise<void>
+    /** Flushes, closes the clients with the 1001 (going away) code, then resolves once the HTTP server has stopped */
+    close: () => Promise<void>
 }
 
-export function startServer(port = 11000): DashboardServer {
+// Clients not answering the close handshake in time are terminated
+const CLIENT_CLOSE_TIMEOUT_MS = 1000
+
+export function startServer(port = 11000, source: DashboardSource = { getLogFiles: () => [], getBasePath: () => null, getLevels: () => [] }): DashboardServer {
     const clients = new Set<WebSocket>()
+    // Last frame sent to each client, frames are written in order
+    const lastSent = new Map<WebSocket, Promise<void>>()
 
     const server = createServer((req: IncomingMessage, res: ServerResponse) => {
         const url = req.url || '/'
@@ -62,7 +61,12 @@ export function startServer(port = 11000): DashboardServer {
         if (url === '/api') { res.writeHead(200); res.end('OK'); return }
         if (url === '/api/logFiles') {
             res.writeHead(200, { 'Content-Type': 'application/json' })
-            res.end(JSON.stringify({ files: getLogFiles(), basePath: getBasePath() }))
+            res.end(JSON.stringify({ files: source.getLogFiles(), basePath: source.getBasePath() }))
+            return
+        }
+        if (url === '/api/levels') {
+            res.writeHead(200, { 'Content-Type': 'application/json' })
+            res.end(JSON.stringify({ levels: source.getLevels().map(({ name, level, badgeColor }) => ({ name, level, badgeColor })) }))
             return
         }
         res.writeHead(404); res.end('Not Found')
@@ -78,14 +82,42 @@ export function startServer(port = 11000): DashboardServer {
                 if (data.type === 'ping') ws.send(JSON.stringify({ type: 'pong', timestamp: data.timestamp, server: new Date().toISOString() }))
             } catch {}
         })
-        ws.on('close', () => clients.delete(ws))
-        ws.on('error', () => clients.delete(ws))
+        ws.on('close', () => { clients.delete(ws); lastSent.delete(ws) })
+        ws.on('error', () => { clients.delete(ws); lastSent.delete(ws) })
+    })
+
+    // Values are encoded with tags (see JSONBigInt), never throwing on circular references or exotic types
+    const broadcast = (type: string, callLine: string, date: Date, args: unknown[], boundData?: unknown, namespace?: string, meta?: BroadcastMeta, serialize?: TSerializeOptions) => {
+        const msg = JSON.stringify({
+            type, callLine, date: date.toISOString(), namespace: namespace ?? '', ...meta,
+            argList: JSONBigInt.encode(args, serialize),
+            boundDatas: JSONBigInt.encode(boundData ?? {}, serialize),
+            properties: meta?.properties && JSONBigInt.encode(meta.properties, serialize)
+        })
+        clients.forEach(c => {
+            if (c.readyState !== WebSocket.OPEN) return
+            // Errors also end the wait, the client is dropped on its 'error' event
+            lastSent.set(c, new Promise(resolve => c.send(msg, () => resolve())))
+        })
+    }
+
+    const flush = async () => { await Promise.all(lastSent.values()) }
+
+    const closeClient = (ws: WebSocket) => new Promise<void>(resolve => {
+        if (ws.readyState === WebSocket.CLOSED) return resolve()
+        const timer = setTimeout(() => ws.terminate(), CLIENT_CLOSE_TIMEOUT_MS)
+        ws.once('close', () => { clearTimeout(timer); resolve() })
+        ws.close(1001, 'Dashboard server closing')
     })
 
-    const broadcast = (type: string, callLine: string, date: Date, args: unknown[], boundData?: unknown) => {
-        const msg = JSON.stringify({ type, callLine, date: date.toISOString(), argList: args, boundDatas: boundData ?? {} },
-            (_k, v) => typeof v === 'bigint' ? { _type: 'bigint', _value: v.toString() } : v)
-        clients.forEach(c => { if (c.readyState === WebSocket.OPEN) c.send(msg) })
+    const close = async () => {
+        // Stop listening first so that the port is free right away, the callback fires once every connection is gone.
+        // It fails when the server is not listening, which is stopped as well
+        const closed = new Promise<void>(resolve => server.close(() => resolve()))
+        await flush()
+        await Promise.all([...clients].map(closeClient))
+        await new Promise<void>(resolve => wss.close(() => resolve()))
+        await closed
     }
 
     server.listen(port, "127.0.0.1", () => {
@@ -95,7 +127,6 @@ export function startServer(port = 11000): DashboardServer {
     })
 
     return {
-        server, wss, broadcast,
-        close: () => { clients.forEach(c => c.close()); server.close() }
+        server, wss, broadcast, flush, close
     }
 }
@@ -1,3 +1,4 @@
+import type { IncomingMessage } from 'node:http'
 
 export interface TLoggyConfig {
     /** Log level threshold (higher = more verbose). Use LoggyLogger.LEVELS constants. */
@@ -16,6 +17,32 @@ export interface TLoggyConfig {
     convertObjectsColorized: boolean
     /** Maximum depth for object inspection */
     convertObjectsDepth: number
+    /** Append bound datas to the pretty output */
+    showBoundDatas: boolean
+    /** Bound datas rendering: trailing key=value pairs or an inspected object */
+    boundDatasStyle: 'keyvalue' | 'inspect'
+    /** Only show these bound datas keys (null = all keys) */
+    boundDatasKeys: string[] | null
+    /** Truncate rendered bound datas values to this length (0 = no limit) */
+    boundDatasMaxLength: number
+    /** DEBUG-style namespace patterns raising the level of matching loggers, e.g. "db:*,-db:pool:verbose" or "db:*=debug" */
+    namespaces: string
+    /** Output format of transports without their own formatter */
+    format: TLogFormat
+    /** Outputs receiving every log entry (defaults to a single console transport) */
+    transports: TTransport[]
+    /** Sensitive data removed from args and bound datas before any output (null = disabled) */
+    redact: TRedactOptions | null
+    /** Per call site limits and per level sampling (null = disabled) */
+    rateLimit: TRateLimitOptions | null
+    /** Collapse consecutive identical logs of a logger into a single "(repeated ×N)" line */
+    dedup: boolean | TDedupOptions
+    /** Limits applied when sending logs to the dashboard */
+    serialize: TSerializeOptions
+    /** Resolve call lines of compiled or bundled code to their original location through source maps */
+    sourceMaps: boolean
+    /** Normalized base path, file paths under it are shown relative ("./src/app.ts") */
+    basePath?: string
 }
 
 export type TLoggyConfigOptional = Partial<TLoggyConfig>
@@ -23,8 +50,178 @@ export type TLoggyConfigOptional = Partial<TLoggyConfig>
 export type TLogType = 'fatal' | 'error' | 'warn' | 'success' | 'info' | 'log' | 'debug' | 'verbose' | 'silly' | 'unknown'
 export type TLogTypeList = ['fatal', 'error', 'warn', 'success', 'info', 'log', 'debug', 'verbose', 'silly', 'unknown']
 
+/** Definition of a custom log level, see LoggyLogger.addLevels() */
+export interface TLevelDefinition {
+    /** Numeric priority, compared against the level threshold like LEVELS values */
+    level: number
+    /** Foreground color of the level (default: FgWhite), the badge uses the matching background */
+    color?: ColorType
+    /** Badge text in the terminal (default: first letter of the level name) */
+    badge?: string
+    /** Emoji shown at the start of the line (default: •) */
+    emoji?: string
+    /** Full terminal pattern override, same shape as the built-in patterns: [prefix, middle, suffix] */
+    pattern?: [string, string, string]
+    /** CSS color of the dashboard badge (default: derived from color) */
+    badgeColor?: string
+}
+
+/** Custom log level registered with LoggyLogger.addLevels(), defaults applied */
+export interface TCustomLevel {
+    name: string
+    level: number
+    emoji: string
+    pattern: [string, string, string]
+    badgeColor: string
+}
+
+/** Custom levels of a LoggyLogger instance, by name */
+export type TCustomLevels = ReadonlyMap<string, TCustomLevel>
+
 export type TMultipleLogLineType = "base" | "mlstart" | "mlstep" | "mlend"
 
+/** A single log call: frozen record built once per call, shared by the dashboard, formatters and transports */
+export interface TLogEntry {
+    /** Built-in or custom log type */
+    readonly type: TLogType | (string & {})
+    /** Numeric level of the log type (see LEVELS) */
+    readonly level: number
+    readonly date: Date
+    readonly callLine: string
+    /** Namespace of the logger, empty for unnamed loggers */
+    readonly namespace: string
+    readonly args: unknown[]
+    readonly boundDatas: Record<string, unknown>
+    /** Message template with {name} placeholders, when the message was rendered from one */
+    readonly template?: string
+    /** Values of the template placeholders */
+    readonly properties?: Record<string, unknown>
+    /** Measured duration, for logs of timers (timeEnd, startTimer) */
+    readonly durationMs?: number
+}
+
+/**
+ * Middleware run on each record before output, see LoggyLogger.use().
+ * Returns a new record (changing `type` changes the level), nothing to keep the record, or null to drop it.
+ */
+export type TLogHook = (record: TLogEntry) => TLogEntry | null | undefined | void
+
+export type TLogFormat = 'pretty' | 'json' | 'logfmt'
+
+export interface TSerializeOptions {
+    /** Nesting depth after which objects are replaced by a summary (default: 10) */
+    maxDepth?: number
+    /** Maximum number of items of arrays, Maps, Sets, typed arrays and object keys (default: 100) */
+    maxEntries?: number
+    /** Strings longer than this are truncated (default: 10000) */
+    maxStringLength?: number
+}
+
+/** JSON-safe form of an Error, see serializeError() */
+export interface TSerializedError {
+    /** Only set on the dashboard wire format, to tell errors apart from plain objects */
+    _type?: 'error'
+    name: string
+    message: string
+    stack?: string
+    code?: unknown
+    /** Serialized cause when it is an error, raw value otherwise */
+    cause?: unknown
+    /** Serialized AggregateError.errors */
+    errors?: unknown[]
+    /** Custom enumerable properties */
+    props?: Record<string, unknown>
+}
+
+/**
+ * Turns a log entry into output lines. Receives the config of the logger that emitted the entry,
+ * and the custom levels of its LoggyLogger instance for formatters rendering them.
+ */
+export type TLogFormatter = (entry: TLogEntry, config: TLoggyConfig, levels?: TCustomLevels) => string | string[]
+
+export interface TTransportOptions {
+    /** Level threshold for this transport only. Falls back to the logger level when omitted. */
+    level?: number
+    /** Formatter for this transport only. Falls back to the logger `format` when omitted. */
+    format?: TLogFormatter
+}
+
+export interface TTransport extends TTransportOptions {
+    write: (entry: TLogEntry, lines: string[]) => void
+    /** Resolves once everything written so far has been handled */
+    flush?: () => Promise<void>
+    /** Flushes and releases the underlying resources */
+    close?: () => Promise<void>
+}
+
+export interface TFileTransportOptions extends TTransportOptions {
+    /** Path of the active log file, rotated files are created next to it */
+    filename: string
+    /** Write NDJSON (one JSON object per line) instead of plain text lines */
+    json?: boolean
+    /** Rotate when the file would grow past this size, in bytes */
+    maxSize?: number
+    /** Rotate when the day changes */
+    daily?: boolean
+    /** Gzip rotated files (default: true) */
+    compress?: boolean
+    /** Keep at most this many rotated files */
+    maxFiles?: number
+    /** Delete rotated files older than this many days */
+    maxDays?: number
+}
+
+/** Censoring applied to redacted values: replace with the mask, replace with a short sha256 digest, or drop the key */
+export type TRedactCensor = 'mask' | 'hash' | 'remove'
+
+export interface TRedactOptions {
+    /** Key names redacted at any depth, `*` matches any characters (e.g. "password", "*token*") */
+    keys?: string[]
+    /** Dotted paths from the root of each object argument and of the bound datas, `*` matches one segment (e.g. "req.headers.authorization", "users.*.ssn") */
+    paths?: string[]
+    /** Patterns censored inside string values, e.g. bearer tokens or card numbers */
+    patterns?: (RegExp | string)[]
+    /** How redacted values are censored (default: 'mask') */
+    censor?: TRedactCensor
+    /** Replacement used by the 'mask' censor (default: "[REDACTED]") */
+    mask?: string
+}
+
+export interface TRateLimitOptions {
+    /** Maximum number of logs per call site in each window */
+    max?: number
+    /** Window duration in milliseconds (default: 10000) */
+    windowMs?: number
+    /** Fraction of logs kept per log type, from 0 to 1, e.g. { debug: 0.1 } */
+    sample?: Partial<Record<TLogType | (string & {}), number>>
+}
+
+export interface TDedupOptions {
+    /** Emit the repeat count of a still repeating log after this delay, in milliseconds (default: 5000) */
+    timeoutMs?: number
+}
+
+export interface THttpLoggerOptions {
+    /** Header holding an incoming request id, also set on the response (default: "x-request-id", false = always generate one) */
+    requestIdHeader?: string | false
+    /** Request id generator (default: crypto.randomUUID) */
+    generateRequestId?: (req: IncomingMessage) => string
+    /** Requests not logged, e.g. health checks */
+    ignore?: (req: IncomingMessage) => boolean
+}
+
+export interface TCaptureConsoleOptions {
+    /** Also capture process.stdout (info) and process.stderr (error) writes, one log per line */
+    streams?: boolean
+}
+
+export interface THandleExceptionsOptions {
+    /** Exit with code 1 after an uncaught exception or an unhandled rejection (default: true) */
+    exitOnError?: boolean
+    /** Longest wait for the output to be flushed before exiting, in milliseconds (default: 3000) */
+    flushTimeoutMs?: number
+}
+
 export enum LOG_LEVEL {
     FATAL = 10,
     ERROR = 20,